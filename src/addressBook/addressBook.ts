@@ -0,0 +1,371 @@
+import fs from "fs/promises";
+import path from "path";
+import { ethers } from "ethers";
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { TransferResponse } from "@safe-global/api-kit";
+import { Logger } from "../utils/logger";
+import { getParam } from "../utils/calldata";
+import {
+  isBatchCall,
+  TransactionCall,
+  unpackTransaction,
+} from "../utils/multiSend";
+import { SafeConfig, safeKey } from "../safes/registry";
+import {
+  findLookalike,
+  InboundTransfer,
+  isDustTransfer,
+  toInboundTransfer,
+} from "./poisoning";
+
+export type TrustLevel = "trusted" | "known" | "blocked";
+
+export const TRUST_LEVELS: TrustLevel[] = ["trusted", "known", "blocked"];
+
+export interface AddressBookEntry {
+  address: string;
+  label?: string;
+  // "known" entries are learned from executed transactions; "trusted" and
+  // "blocked" are only ever set by a person
+  trust: TrustLevel;
+  // Reviewer who added or last edited the entry, or "history"
+  addedBy: string;
+  // Executed transactions of the Safe that paid or called this address
+  interactions: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  updatedAt: string;
+}
+
+// Lowercase address -> entry, for one Safe
+export type AddressBook = ReadonlyMap<string, AddressBookEntry>;
+
+interface SafeAddressBook {
+  // Highest executed nonce already counted into `interactions`
+  lastSyncedNonce: number;
+  syncedAt?: string;
+  entries: Record<string, AddressBookEntry>;
+  // Latest zero-value or dust transfer into the Safe, by lowercase sender
+  inboundDust?: Record<string, InboundTransfer>;
+  // Execution date of the newest incoming transfer already read
+  inboundSyncedAt?: string;
+}
+
+// Interactions after which a "known" payee counts as long-standing
+export const ESTABLISHED_MIN_INTERACTIONS = 3;
+
+const ADDRESS_BOOK_PATH =
+  process.env.ADDRESS_BOOK_PATH ||
+  path.resolve(process.cwd(), "data/address-book.json");
+
+const SYNC_INTERVAL_MS = 10 * 60 * 1000;
+// Bound on remembered dust senders per Safe, oldest dropped first
+const MAX_INBOUND_DUST = 1000;
+
+/**
+ * The address that receives value from a call: the recipient of token
+ * transfers out of the Safe, otherwise the call target.
+ */
+export const getCounterparty = (call: TransactionCall, safe: string) => {
+  const { decoded } = call;
+
+  if (decoded?.method === "transfer") {
+    return String(getParam(decoded, "to", 0));
+  }
+  if (
+    decoded &&
+    ["transferFrom", "safeTransferFrom"].includes(decoded.method) &&
+    String(getParam(decoded, "from", 0)).toLowerCase() === safe.toLowerCase()
+  ) {
+    return String(getParam(decoded, "to", 1));
+  }
+  return call.to;
+};
+
+// Trusted, or known from enough executed transactions
+export const isEstablished = (entry: AddressBookEntry | undefined) =>
+  !!entry &&
+  (entry.trust === "trusted" ||
+    (entry.trust === "known" &&
+      entry.interactions >= ESTABLISHED_MIN_INTERACTIONS));
+
+/**
+ * Per-Safe address book of counterparties, learned from the Safe's executed
+ * transactions and curated by reviewers.
+ */
+export class AddressBookStore {
+  private static instance: AddressBookStore;
+  private books: Record<string, SafeAddressBook> = {};
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly filePath: string) {}
+
+  public static getInstance(): AddressBookStore {
+    if (!AddressBookStore.instance) {
+      AddressBookStore.instance = new AddressBookStore(ADDRESS_BOOK_PATH);
+    }
+    return AddressBookStore.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          this.books = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+      })();
+      // Let a failed load be retried on the next call
+      this.loading.catch(() => (this.loading = null));
+    }
+    return this.loading;
+  }
+
+  // Writes are serialized and go through a temp file + rename so the file
+  // is never left half-written
+  private persist(): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(this.books, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    // A failed write must not block the ones queued after it
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private book(safeConfig: SafeConfig): SafeAddressBook {
+    const key = safeKey(safeConfig);
+    if (!this.books[key]) {
+      this.books[key] = { lastSyncedNonce: -1, entries: {} };
+    }
+    return this.books[key];
+  }
+
+  public async getAddressBook(safeConfig: SafeConfig): Promise<AddressBook> {
+    await this.load();
+    return new Map(Object.entries(this.book(safeConfig).entries));
+  }
+
+  public async list(safeConfig: SafeConfig): Promise<AddressBookEntry[]> {
+    await this.load();
+    return Object.values(this.book(safeConfig).entries);
+  }
+
+  public async get(
+    safeConfig: SafeConfig,
+    address: string
+  ): Promise<AddressBookEntry | undefined> {
+    await this.load();
+    return this.book(safeConfig).entries[address.toLowerCase()];
+  }
+
+  public async upsert(
+    safeConfig: SafeConfig,
+    address: string,
+    { label, trust }: { label?: string; trust: TrustLevel },
+    addedBy: string
+  ): Promise<AddressBookEntry> {
+    await this.load();
+
+    const entries = this.book(safeConfig).entries;
+    const key = address.toLowerCase();
+
+    entries[key] = {
+      ...entries[key],
+      interactions: entries[key]?.interactions ?? 0,
+      address: ethers.getAddress(address),
+      label,
+      trust,
+      addedBy,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.persist();
+
+    return entries[key];
+  }
+
+  public async remove(
+    safeConfig: SafeConfig,
+    address: string
+  ): Promise<boolean> {
+    await this.load();
+
+    const entries = this.book(safeConfig).entries;
+    const key = address.toLowerCase();
+    if (!entries[key]) return false;
+
+    delete entries[key];
+    await this.persist();
+    return true;
+  }
+
+  public async getInboundDust(
+    safeConfig: SafeConfig
+  ): Promise<InboundTransfer[]> {
+    await this.load();
+    return Object.values(this.book(safeConfig).inboundDust ?? {});
+  }
+
+  public async getLastSyncedNonce(safeConfig: SafeConfig): Promise<number> {
+    await this.load();
+    return this.book(safeConfig).lastSyncedNonce;
+  }
+
+  public async getInboundSyncedAt(
+    safeConfig: SafeConfig
+  ): Promise<string | undefined> {
+    await this.load();
+    return this.book(safeConfig).inboundSyncedAt;
+  }
+
+  public async isSyncDue(safeConfig: SafeConfig): Promise<boolean> {
+    await this.load();
+
+    const { syncedAt } = this.book(safeConfig);
+    return !syncedAt || Date.now() - Date.parse(syncedAt) > SYNC_INTERVAL_MS;
+  }
+
+  /**
+   * Count the counterparties of executed transactions not seen before.
+   * Transactions are identified by nonce, so a page can be fed in again.
+   */
+  public async syncFromHistory(
+    safeConfig: SafeConfig,
+    transactions: SafeMultisigTransactionResponse[]
+  ): Promise<void> {
+    await this.load();
+
+    const book = this.book(safeConfig);
+    const executed = transactions
+      .filter(
+        (tx) =>
+          tx.isExecuted &&
+          tx.isSuccessful !== false &&
+          Number(tx.nonce) > book.lastSyncedNonce
+      )
+      .sort((a, b) => Number(a.nonce) - Number(b.nonce));
+
+    for (const tx of executed) {
+      if (Number(tx.nonce) <= book.lastSyncedNonce) continue;
+
+      const seenAt = tx.executionDate ?? new Date().toISOString();
+      let calls: TransactionCall[];
+
+      try {
+        calls = unpackTransaction(tx);
+      } catch {
+        calls = [];
+      }
+
+      const counterparties = new Set(
+        calls
+          .filter((call) => !isBatchCall(call))
+          .map((call) => getCounterparty(call, tx.safe).toLowerCase())
+          .filter((address) => address !== tx.safe.toLowerCase())
+      );
+
+      for (const address of counterparties) {
+        const entry = book.entries[address];
+
+        book.entries[address] = entry
+          ? {
+              ...entry,
+              interactions: entry.interactions + 1,
+              firstSeen: entry.firstSeen ?? seenAt,
+              lastSeen: seenAt,
+            }
+          : {
+              address: ethers.getAddress(address),
+              trust: "known",
+              addedBy: "history",
+              interactions: 1,
+              firstSeen: seenAt,
+              lastSeen: seenAt,
+              updatedAt: new Date().toISOString(),
+            };
+      }
+
+      book.lastSyncedNonce = Number(tx.nonce);
+    }
+
+    book.syncedAt = new Date().toISOString();
+    await this.persist();
+
+    if (executed.length) {
+      Logger.info("address-book", "Synced address book from history", {
+        safe: safeConfig.name,
+        transactions: executed.length,
+        entries: Object.keys(book.entries).length,
+      });
+    }
+  }
+
+  /**
+   * Remember zero-value and dust transfers sent into the Safe. Poisoners send
+   * them from lookalikes of real counterparties so the fake address shows up
+   * in the Safe's history, waiting to be copied.
+   */
+  public async syncInboundTransfers(
+    safeConfig: SafeConfig,
+    transfers: TransferResponse[]
+  ): Promise<void> {
+    await this.load();
+
+    const book = this.book(safeConfig);
+    const inboundDust = { ...book.inboundDust };
+    const safe = safeConfig.address.toLowerCase();
+
+    let syncedAt = book.inboundSyncedAt;
+
+    for (const transfer of transfers) {
+      if (
+        !syncedAt ||
+        Date.parse(transfer.executionDate) > Date.parse(syncedAt)
+      ) {
+        syncedAt = transfer.executionDate;
+      }
+
+      const from = transfer.from?.toLowerCase();
+      if (
+        !from ||
+        from === safe ||
+        transfer.to?.toLowerCase() !== safe ||
+        !isDustTransfer(transfer)
+      ) {
+        continue;
+      }
+
+      const known = inboundDust[from];
+      if (known && known.executionDate >= transfer.executionDate) continue;
+
+      inboundDust[from] = toInboundTransfer(transfer);
+
+      if (!known) {
+        const mimicked = findLookalike(
+          transfer.from,
+          Object.values(book.entries)
+        );
+        if (mimicked) {
+          Logger.warn("address-book", "Possible address poisoning transfer", {
+            safe: safeConfig.name,
+            from: transfer.from,
+            mimics: mimicked.address,
+            transactionHash: transfer.transactionHash,
+          });
+        }
+      }
+    }
+
+    book.inboundDust = Object.fromEntries(
+      Object.entries(inboundDust)
+        .sort(([, a], [, b]) => b.executionDate.localeCompare(a.executionDate))
+        .slice(0, MAX_INBOUND_DUST)
+    );
+    book.inboundSyncedAt = syncedAt;
+    await this.persist();
+  }
+}
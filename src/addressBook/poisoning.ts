@@ -0,0 +1,104 @@
+import { ethers } from "ethers";
+import { TransferResponse } from "@safe-global/api-kit";
+
+// Leading and trailing hex characters a poisoner copies at the very least;
+// wallets usually shorten addresses to 0x1234…abcd
+export const LOOKALIKE_MIN_MATCH = 4;
+
+// Transfers below this many whole tokens (or ETH) count as dust
+const DUST_UNITS = "0.0001";
+
+export interface Lookalike {
+  // The legitimate address being mimicked
+  address: string;
+  label?: string;
+  // Hex characters matching at the start and at the end
+  prefix: number;
+  suffix: number;
+}
+
+// A zero-value or dust transfer sent into the Safe
+export interface InboundTransfer {
+  transactionHash: string;
+  from: string;
+  type: string;
+  value: string;
+  tokenAddress?: string;
+  symbol?: string;
+  executionDate: string;
+}
+
+const matchingEnds = (a: string, b: string) => {
+  const left = a.toLowerCase().slice(2);
+  const right = b.toLowerCase().slice(2);
+
+  let prefix = 0;
+  while (prefix < left.length && left[prefix] === right[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < left.length &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return { prefix, suffix };
+};
+
+/**
+ * Finds the candidate that `address` imitates: same leading and trailing
+ * characters, different middle. The closest imitation wins.
+ */
+export const findLookalike = (
+  address: string,
+  candidates: Iterable<{ address: string; label?: string }>
+): Lookalike | undefined => {
+  let best: Lookalike | undefined;
+
+  for (const candidate of candidates) {
+    if (candidate.address.toLowerCase() === address.toLowerCase()) continue;
+
+    const { prefix, suffix } = matchingEnds(address, candidate.address);
+    if (prefix < LOOKALIKE_MIN_MATCH || suffix < LOOKALIKE_MIN_MATCH) {
+      continue;
+    }
+
+    if (!best || prefix + suffix > best.prefix + best.suffix) {
+      best = {
+        address: candidate.address,
+        label: candidate.label,
+        prefix,
+        suffix,
+      };
+    }
+  }
+
+  return best;
+};
+
+// Zero-value or dust ETH and ERC-20 transfers, the usual poisoning bait
+export const isDustTransfer = (transfer: TransferResponse) => {
+  if (transfer.type === "ERC721_TRANSFER" || transfer.value === undefined) {
+    return false;
+  }
+
+  const decimals =
+    transfer.type === "ETHER_TRANSFER" ? 18 : transfer.tokenInfo?.decimals;
+  // Without decimals only an exact zero can be judged
+  if (decimals === undefined) return BigInt(transfer.value) === 0n;
+
+  return BigInt(transfer.value) < ethers.parseUnits(DUST_UNITS, decimals);
+};
+
+export const toInboundTransfer = (
+  transfer: TransferResponse
+): InboundTransfer => ({
+  transactionHash: transfer.transactionHash,
+  from: ethers.getAddress(transfer.from),
+  type: transfer.type,
+  value: transfer.value ?? "0",
+  tokenAddress: transfer.tokenAddress,
+  symbol: transfer.tokenInfo?.symbol,
+  executionDate: transfer.executionDate,
+});
@@ -1,54 +1,18 @@
 import OpenAI from "openai";
 import { Logger } from "./utils/logger";
-import Safe, {
-  PredictedSafeProps,
-  SafeAccountConfig,
-} from "@safe-global/protocol-kit";
-import { sepolia } from "viem/chains";
 import { ethers } from "ethers";
 import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { SimulationResult } from "./simulation/types";
+import { RiskLevel, SecurityChecks } from "./checks/types";
+
+// Model that writes the advisory security analysis
+export const SECURITY_ANALYSIS_MODEL = "gpt-3.5-turbo";
 
 // Initialize OpenAI client
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-const SIGNER_ADDRESS = process.env.SIGNER_ADDRESS;
-const SAFE_ADDRESS = process.env.SAFE_ADDRESS;
-const HUMAN_SIGNER_1_ADDRESS = process.env.HUMAN_SIGNER_1_ADDRESS;
-const RPC_URL = process.env.RPC_URL;
-
-async function initializeSafeAccount() {
-  const SIGNER_PRIVATE_KEY = process.env.SIGNER_PRIVATE_KEY;
-
-  if (
-    !SIGNER_PRIVATE_KEY ||
-    !RPC_URL ||
-    !SAFE_ADDRESS ||
-    !SIGNER_ADDRESS ||
-    !HUMAN_SIGNER_1_ADDRESS
-  ) {
-    throw new Error("Missing environment variables in .env file");
-  }
-
-  const safeAccountConfig: SafeAccountConfig = {
-    owners: [SIGNER_ADDRESS, HUMAN_SIGNER_1_ADDRESS],
-    threshold: 2,
-  };
-
-  const predictedSafe: PredictedSafeProps = {
-    safeAccountConfig,
-  };
-
-  const safe = await Safe.init({
-    provider: RPC_URL,
-    signer: SIGNER_PRIVATE_KEY,
-    predictedSafe,
-  });
-
-  return safe;
-}
-
 export async function processMessage(content: string): Promise<string> {
   try {
     const news = content;
@@ -78,7 +42,12 @@ export async function processMessage(content: string): Promise<string> {
 
 export async function processSecurityReport(
   tx: SafeMultisigTransactionResponse,
-  securityChecks: any
+  securityChecks: SecurityChecks,
+  simulation?: SimulationResult,
+  {
+    onToken,
+    signal,
+  }: { onToken?: (token: string) => void; signal?: AbortSignal } = {}
 ): Promise<string> {
   try {
     const transactionDetails = {
@@ -87,46 +56,78 @@ export async function processSecurityReport(
       data: tx.data ? "Contract interaction" : "Simple transfer",
     };
 
+    // Concrete state changes from simulation give the model more to go on
+    // than the destination and value alone
+    const simulationContext = simulation
+      ? `
+Simulated State Changes (${simulation.mode} mode):
+${JSON.stringify(
+  {
+    reverted: simulation.reverted,
+    revertReason: simulation.revertReason,
+    balanceChanges: simulation.balanceChanges,
+    allowanceChanges: simulation.allowanceChanges,
+  },
+  null,
+  2
+)}
+`
+      : "";
+
     const securityContext = Object.entries(securityChecks)
-      .map(([checkName, check]: [string, any]) => {
+      .map(([checkName, check]) => {
         return `${checkName}: ${check.message} (Risk: ${check.risk})`;
       })
       .join("\n");
 
-    const completion = await openai.chat.completions.create({
-      messages: [
-        {
-          role: "system",
-          content: `You are a blockchain security expert analyzing a Safe transaction. 
+    // Streamed so callers can relay the analysis as it is written
+    const stream = await openai.chat.completions.create(
+      {
+        messages: [
+          {
+            role: "system",
+            content: `You are a blockchain security expert analyzing a Safe transaction. 
           Provide a concise but comprehensive security assessment based on the following checks.
           Focus on potential risks and recommended actions.`,
-        },
-        {
-          role: "user",
-          content: `
+          },
+          {
+            role: "user",
+            content: `
 Transaction Details:
 ${JSON.stringify(transactionDetails, null, 2)}
 
 Security Checks Results:
 ${securityContext}
-
+${simulationContext}
 Please provide:
 1. Overall risk assessment
 2. Key security concerns (if any)
 3. Recommended actions
 4. Additional considerations
           `,
-        },
-      ],
-      model: "gpt-3.5-turbo",
-      temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    return (
-      completion.choices[0].message.content || "No security analysis generated"
+          },
+        ],
+        model: SECURITY_ANALYSIS_MODEL,
+        temperature: 0.7,
+        max_tokens: 500,
+        stream: true,
+      },
+      { signal }
     );
+
+    let analysis = "";
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (!token) continue;
+      analysis += token;
+      onToken?.(token);
+    }
+
+    return analysis || "No security analysis generated";
   } catch (error) {
+    // A cancelled analysis is not an LLM failure
+    if (signal?.aborted) throw error;
+
     Logger.error("llm", "Failed to generate security report", {
       error: error instanceof Error ? error.message : String(error),
       tx: tx.transactionHash,
@@ -136,8 +137,10 @@ Please provide:
 }
 
 // Helper function to generate a human-readable summary of security checks
-export function generateSecuritySummary(securityChecks: any): string {
-  const riskEmoji = {
+export function generateSecuritySummary(
+  securityChecks: SecurityChecks
+): string {
+  const riskEmoji: Record<RiskLevel, string> = {
     none: "✅",
     low: "💚",
     medium: "💛",
@@ -146,8 +149,8 @@ export function generateSecuritySummary(securityChecks: any): string {
   };
 
   return Object.entries(securityChecks)
-    .map(([checkName, check]: [string, any]) => {
-      return `${riskEmoji?.[check.risk]} ${checkName}: ${check.message}`;
+    .map(([checkName, check]) => {
+      return `${riskEmoji[check.risk]} ${checkName}: ${check.message}`;
     })
     .join("\n");
 }
@@ -0,0 +1,47 @@
+import { RiskLevel, SecurityCheck } from "./checks/types";
+import { PolicyDecision } from "./policy/types";
+
+// Progress of an analysis run, in the order it happens for each transaction
+export type AnalysisEvent =
+  | {
+      type: "transaction";
+      safeTxHash: string;
+      nonce: number;
+      to: string;
+      value: string;
+      // Position among the pending transactions being analysed
+      position: number;
+      total: number;
+    }
+  | {
+      type: "check";
+      safeTxHash: string;
+      checkId: string;
+      result: SecurityCheck;
+    }
+  | {
+      type: "decision";
+      safeTxHash: string;
+      decision: PolicyDecision;
+      severity: RiskLevel;
+    }
+  // A chunk of the LLM's advisory analysis as it is generated
+  | { type: "token"; safeTxHash: string; token: string }
+  | {
+      type: "signing";
+      safeTxHash: string;
+      // e.g. "signed", "would-sign", "not-signed"
+      action: string;
+    };
+
+export type AnalysisEventType = AnalysisEvent["type"];
+
+/**
+ * Lets a caller follow an analysis as it runs and cancel it. Cancelling
+ * stops before the next check run, LLM call, signature or transaction;
+ * work already done (e.g. a submitted signature) is still recorded.
+ */
+export interface AnalysisProgress {
+  onEvent?: (event: AnalysisEvent) => void;
+  signal?: AbortSignal;
+}
@@ -0,0 +1,79 @@
+import { ethers } from "ethers";
+
+export interface Instruction {
+  pc: number;
+  opcode: number;
+  // Immediate of PUSH1..PUSH32, as hex
+  push?: string;
+  // False for bytes after a halting instruction and before the next
+  // JUMPDEST: data, not code
+  reachable: boolean;
+}
+
+export const OPCODES = {
+  STOP: 0x00,
+  JUMP: 0x56,
+  JUMPDEST: 0x5b,
+  PUSH1: 0x60,
+  PUSH4: 0x63,
+  PUSH32: 0x7f,
+  CREATE2: 0xf5,
+  CALLCODE: 0xf2,
+  RETURN: 0xf3,
+  DELEGATECALL: 0xf4,
+  REVERT: 0xfd,
+  INVALID: 0xfe,
+  SELFDESTRUCT: 0xff,
+};
+
+const HALTING = new Set([
+  OPCODES.STOP,
+  OPCODES.JUMP,
+  OPCODES.RETURN,
+  OPCODES.REVERT,
+  OPCODES.INVALID,
+  OPCODES.SELFDESTRUCT,
+]);
+
+/**
+ * Runtime code without the CBOR metadata solc appends, whose length sits
+ * in the last two bytes. Code without metadata is returned unchanged.
+ */
+export const stripMetadata = (code: Uint8Array): Uint8Array => {
+  if (code.length < 2) return code;
+
+  const length = (code[code.length - 2] << 8) | code[code.length - 1];
+  const start = code.length - 2 - length;
+  // A CBOR map header (0xa1..0xa5) starts the metadata
+  if (length === 0 || start < 0 || code[start] < 0xa1 || code[start] > 0xa5) {
+    return code;
+  }
+  return code.subarray(0, start);
+};
+
+/**
+ * Linear disassembly of runtime code, skipping PUSH immediates and
+ * marking which instructions can execute.
+ */
+export const disassemble = (code: string): Instruction[] => {
+  const bytes = stripMetadata(ethers.getBytes(code));
+  const instructions: Instruction[] = [];
+  let reachable = true;
+
+  for (let pc = 0; pc < bytes.length; pc++) {
+    const opcode = bytes[pc];
+    if (opcode === OPCODES.JUMPDEST) reachable = true;
+
+    const instruction: Instruction = { pc, opcode, reachable };
+    if (opcode >= OPCODES.PUSH1 && opcode <= OPCODES.PUSH32) {
+      const size = opcode - OPCODES.PUSH1 + 1;
+      instruction.push = ethers.hexlify(bytes.subarray(pc + 1, pc + 1 + size));
+      pc += size;
+    }
+    instructions.push(instruction);
+
+    if (HALTING.has(opcode)) reachable = false;
+  }
+
+  return instructions;
+};
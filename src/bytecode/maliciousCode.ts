@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+import { Logger } from "../utils/logger";
+
+// keccak256 of runtime code -> label of the drainer, honeypot or exploit
+type MaliciousCodeFile = Record<string, string>;
+
+const MALICIOUS_BYTECODE_PATH =
+  process.env.MALICIOUS_BYTECODE_PATH ||
+  path.resolve(process.cwd(), "config/malicious-bytecode.json");
+
+let database: Map<string, string> | null = null;
+
+const loadDatabase = (): Map<string, string> => {
+  try {
+    const file: MaliciousCodeFile = JSON.parse(
+      fs.readFileSync(MALICIOUS_BYTECODE_PATH, "utf8")
+    );
+
+    const entries = new Map<string, string>();
+    for (const [codeHash, label] of Object.entries(file)) {
+      if (!/^0x[0-9a-fA-F]{64}$/.test(codeHash)) {
+        Logger.error(
+          "security",
+          "Invalid code hash in malicious bytecode database",
+          {
+            codeHash,
+          }
+        );
+        continue;
+      }
+      entries.set(codeHash.toLowerCase(), label);
+    }
+    return entries;
+  } catch (error) {
+    Logger.error("security", "Failed to load malicious bytecode database", {
+      path: MALICIOUS_BYTECODE_PATH,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new Map();
+  }
+};
+
+/**
+ * Returns the label of known-malicious runtime code with this hash, or
+ * undefined if the hash is not in the local database.
+ */
+export const getMaliciousCodeLabel = (codeHash: string): string | undefined => {
+  if (!database) database = loadDatabase();
+
+  return database.get(codeHash.toLowerCase());
+};
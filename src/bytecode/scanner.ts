@@ -0,0 +1,121 @@
+import { ethers } from "ethers";
+import { disassemble, OPCODES } from "./disassembler";
+
+// Opcodes that let a contract run foreign code, redeploy or remove itself
+export type Capability =
+  "selfdestruct" | "delegatecall" | "callcode" | "create2";
+
+export interface HiddenHook {
+  selector: string;
+  signature: string;
+  kind: "blocklist" | "trading switch" | "transfer limit" | "fee";
+}
+
+export interface BytecodeProfile {
+  codeHash: string;
+  size: number;
+  capabilities: Capability[];
+  // EIP-1167 clone: the implementation every call is forwarded to
+  minimalProxyOf?: string;
+  // EIP-7702 delegation designator: the code an EOA runs
+  delegatedTo?: string;
+  // Function selectors pushed by reachable code (the dispatcher)
+  selectors: string[];
+  // Owner-controlled switches over token transfers; only for ERC-20s
+  hiddenHooks: HiddenHook[];
+}
+
+const CAPABILITY_OPCODES: [number, Capability][] = [
+  [OPCODES.SELFDESTRUCT, "selfdestruct"],
+  [OPCODES.DELEGATECALL, "delegatecall"],
+  [OPCODES.CALLCODE, "callcode"],
+  [OPCODES.CREATE2, "create2"],
+];
+
+// EIP-1167 runtime code around the 20-byte implementation address
+const MINIMAL_PROXY =
+  /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+// EIP-7702 delegation designator: 0xef0100 followed by the delegate
+const DELEGATION_DESIGNATOR = /^0xef0100([0-9a-f]{40})$/;
+
+const ERC20_TRANSFER_SELECTOR = "0xa9059cbb";
+
+// Functions honeypot and rug-pull tokens use to block or tax holders'
+// transfers at the owner's discretion
+const HIDDEN_HOOK_SIGNATURES: [string, HiddenHook["kind"]][] = [
+  ["blacklist(address)", "blocklist"],
+  ["addToBlacklist(address)", "blocklist"],
+  ["setBlacklist(address,bool)", "blocklist"],
+  ["blacklistAddress(address,bool)", "blocklist"],
+  ["addBots(address[])", "blocklist"],
+  ["setBots(address[])", "blocklist"],
+  ["setBot(address,bool)", "blocklist"],
+  ["setTradingEnabled(bool)", "trading switch"],
+  ["enableTrading()", "trading switch"],
+  ["openTrading()", "trading switch"],
+  ["setCooldownEnabled(bool)", "trading switch"],
+  ["setMaxTxAmount(uint256)", "transfer limit"],
+  ["setMaxWalletSize(uint256)", "transfer limit"],
+  ["setTaxFeePercent(uint256)", "fee"],
+  ["setFees(uint256,uint256)", "fee"],
+  ["setSellFee(uint256)", "fee"],
+];
+
+const HIDDEN_HOOKS = new Map(
+  HIDDEN_HOOK_SIGNATURES.map(([signature, kind]) => {
+    const selector = ethers.id(signature).slice(0, 10);
+    return [selector, { selector, signature, kind }];
+  })
+);
+
+// Profiles by code hash; the same code is often deployed many times
+const profiles = new Map<string, BytecodeProfile>();
+
+/**
+ * Disassembles runtime code and reports the capabilities it can exercise.
+ * Purely offline: works on code from any node.
+ */
+export const scanBytecode = (code: string): BytecodeProfile => {
+  const codeHash = ethers.keccak256(code);
+  const cached = profiles.get(codeHash);
+  if (cached) return cached;
+
+  const normalized = code.toLowerCase();
+  const minimalProxy = MINIMAL_PROXY.exec(normalized);
+  const delegation = DELEGATION_DESIGNATOR.exec(normalized);
+
+  const instructions = delegation
+    ? []
+    : disassemble(code).filter((instruction) => instruction.reachable);
+  const opcodes = new Set(
+    instructions.map((instruction) => instruction.opcode)
+  );
+  const selectors = [
+    ...new Set(
+      instructions
+        .filter((instruction) => instruction.opcode === OPCODES.PUSH4)
+        .map((instruction) => instruction.push!)
+    ),
+  ];
+
+  const profile: BytecodeProfile = {
+    codeHash,
+    size: ethers.dataLength(code),
+    capabilities: CAPABILITY_OPCODES.filter(([opcode]) =>
+      opcodes.has(opcode)
+    ).map(([, capability]) => capability),
+    minimalProxyOf: minimalProxy
+      ? ethers.getAddress(`0x${minimalProxy[1]}`)
+      : undefined,
+    delegatedTo: delegation
+      ? ethers.getAddress(`0x${delegation[1]}`)
+      : undefined,
+    selectors,
+    hiddenHooks: selectors.includes(ERC20_TRANSFER_SELECTOR)
+      ? selectors.flatMap((selector) => HIDDEN_HOOKS.get(selector) ?? [])
+      : [],
+  };
+
+  profiles.set(codeHash, profile);
+  return profile;
+};
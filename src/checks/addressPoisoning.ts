@@ -0,0 +1,102 @@
+import { CheckContext, SecurityCheck, SecurityCheckDefinition } from "./types";
+import { TransactionCall } from "../utils/multiSend";
+import { AddressListService } from "../utils/addressLists";
+import { Logger } from "../utils/logger";
+import { perCall } from "./helpers";
+import { getCounterparty } from "../addressBook/addressBook";
+import { findLookalike } from "../addressBook/poisoning";
+
+const checkAddressPoisoning = async (
+  call: TransactionCall,
+  { tx, addressBook, inboundDust }: CheckContext
+): Promise<SecurityCheck> => {
+  try {
+    const addressListService = AddressListService.getInstance();
+    await addressListService.load();
+
+    const toAddress = call.to.toLowerCase();
+    const counterparty = getCounterparty(call, tx.safe);
+    const details: string[] = [];
+
+    // Token transfers are judged by their recipient as well as the token
+    for (const address of new Set([toAddress, counterparty.toLowerCase()])) {
+      const matches = addressListService.getMatches(address, "darklist");
+      if (!matches.length) continue;
+
+      return {
+        safe: false,
+        risk: "critical",
+        message: `Destination ${address} is known to be malicious (${matches
+          .map((match) =>
+            match.comment ? `${match.feed}: ${match.comment}` : match.feed
+          )
+          .join("; ")})`,
+        evidence: { address, matches },
+      };
+    }
+
+    // Paying whoever dropped a zero-value or dust transfer into the Safe is
+    // how a poisoned history entry gets used
+    const bait = inboundDust.find(
+      (transfer) => transfer.from.toLowerCase() === counterparty.toLowerCase()
+    );
+
+    if (
+      bait &&
+      addressBook.get(counterparty.toLowerCase())?.trust !== "trusted"
+    ) {
+      const mimicked = findLookalike(bait.from, [...addressBook.values()]);
+      const amount = bait.value === "0" ? "zero-value" : "dust";
+      const asset =
+        bait.type === "ETHER_TRANSFER" ? "ETH" : (bait.symbol ?? "token");
+
+      return {
+        safe: false,
+        risk: mimicked ? "critical" : "high",
+        message: `Destination ${bait.from} sent a ${amount} ${asset} transfer into the Safe (${bait.transactionHash})${
+          mimicked ? ` and imitates counterparty ${mimicked.address}` : ""
+        } - likely address poisoning`,
+        evidence: { bait, mimicked },
+      };
+    }
+
+    // 2. Check if it's a verified address
+    const verified = addressListService.getMatches(toAddress, "lightlist");
+    if (verified.length) {
+      return {
+        safe: true,
+        risk: "none",
+        message: `Destination address is verified (${verified
+          .map((match) => match.feed)
+          .join(", ")})`,
+      };
+    }
+
+    // Default case - no issues found
+    return {
+      safe: true,
+      risk: "none",
+      message: "No address poisoning risks detected",
+    };
+  } catch (error) {
+    Logger.error("security", "Error in address poisoning check", {
+      error: error instanceof Error ? error.message : String(error),
+      address: call.to,
+    });
+    return {
+      safe: false,
+      risk: "high",
+      message: "Error checking address safety",
+    };
+  }
+};
+
+export const addressPoisoningCheck: SecurityCheckDefinition = {
+  id: "addressPoisoning",
+  description:
+    "Checks destinations against the threat feeds and flags senders of dust transfers into the Safe",
+  defaultSeverity: "high",
+  enabled: true,
+  timeoutMs: 5000,
+  run: perCall(checkAddressPoisoning),
+};
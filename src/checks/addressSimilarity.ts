@@ -0,0 +1,93 @@
+import { CheckContext, SecurityCheck, SecurityCheckDefinition } from "./types";
+import { isBatchCall, TransactionCall } from "../utils/multiSend";
+import { perCall } from "./helpers";
+import { getCounterparty } from "../addressBook/addressBook";
+import { findLookalike, LOOKALIKE_MIN_MATCH } from "../addressBook/poisoning";
+
+// Well-known contracts that are imitated even when the Safe never used them
+const COMMON_CONTRACTS = [
+  {
+    address: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
+    label: "Uniswap V2 Router",
+  },
+  {
+    address: "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45",
+    label: "Uniswap V3 Router",
+  },
+  {
+    address: "0x00000000006c3852cbEf3e08E8dF289169EdE581",
+    label: "OpenSea Seaport",
+  },
+];
+
+const describe = (address: string, label?: string) =>
+  label ? `${label} (${address})` : address;
+
+// Address poisoning: the destination copies the first and last characters
+// of an address the Safe has paid before, hoping it gets pasted from history
+const checkDestinationSimilarity = async (
+  call: TransactionCall,
+  { tx, addressBook }: CheckContext
+): Promise<SecurityCheck> => {
+  if (isBatchCall(call)) {
+    return { safe: true, risk: "none", message: "Batch container call" };
+  }
+
+  const destination = getCounterparty(call, tx.safe);
+  if (addressBook.get(destination.toLowerCase())?.trust === "trusted") {
+    return {
+      safe: true,
+      risk: "none",
+      message: "Destination is trusted in the address book",
+    };
+  }
+
+  const counterparties = [...addressBook.values()].filter(
+    (entry) => entry.trust !== "blocked"
+  );
+  const mimicked = findLookalike(destination, counterparties);
+
+  if (mimicked) {
+    const entry = addressBook.get(mimicked.address.toLowerCase())!;
+    return {
+      safe: false,
+      risk: "critical",
+      message: `Destination ${destination} imitates counterparty ${describe(
+        mimicked.address,
+        mimicked.label
+      )} (first ${mimicked.prefix} and last ${
+        mimicked.suffix
+      } characters match, ${entry.interactions} prior transaction(s)) - likely address poisoning`,
+      evidence: { destination, mimicked },
+    };
+  }
+
+  const contract = findLookalike(destination, COMMON_CONTRACTS);
+
+  if (contract) {
+    return {
+      safe: false,
+      risk: "high",
+      message: `Destination ${destination} imitates ${describe(
+        contract.address,
+        contract.label
+      )} - possible lookalike`,
+      evidence: { destination, mimicked: contract },
+    };
+  }
+
+  return {
+    safe: true,
+    risk: "none",
+    message: "Destination does not imitate a known counterparty",
+  };
+};
+
+export const addressSimilarityCheck: SecurityCheckDefinition = {
+  id: "addressSimilarity",
+  description: `Flags destinations sharing the first and last ${LOOKALIKE_MIN_MATCH}+ characters with a past counterparty or well-known contract`,
+  defaultSeverity: "high",
+  enabled: true,
+  timeoutMs: 5000,
+  run: perCall(checkDestinationSimilarity),
+};
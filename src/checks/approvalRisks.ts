@@ -0,0 +1,222 @@
+import { ethers } from "ethers";
+import {
+  CheckContext,
+  RiskLevel,
+  SecurityCheck,
+  SecurityCheckDefinition,
+} from "./types";
+import { TransactionCall } from "../utils/multiSend";
+import { Approval, extractApprovals } from "../utils/approvals";
+import { AddressListService } from "../utils/addressLists";
+import { isEstablished } from "../addressBook/addressBook";
+import { highestRisk, perCall } from "./helpers";
+
+const TOKEN_READ_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+];
+
+const ERC721_INTERFACE_ID = "0x80ac58cd";
+
+// No real balance comes close; anything above is unlimited in practice
+const NEAR_INFINITE = 2n ** 128n;
+
+type SpenderClass = "blocked" | "trusted" | "established" | "unknown" | "eoa";
+
+// Risk of an approval by how much it exposes and who receives it
+const RISK_BY_SPENDER: Record<
+  SpenderClass,
+  { unbounded: RiskLevel; bounded: RiskLevel }
+> = {
+  blocked: { unbounded: "critical", bounded: "critical" },
+  trusted: { unbounded: "low", bounded: "none" },
+  established: { unbounded: "medium", bounded: "none" },
+  unknown: { unbounded: "high", bounded: "medium" },
+  // Approving a wallet rather than a protocol is the classic drainer pattern
+  eoa: { unbounded: "critical", bounded: "high" },
+};
+
+// Reads that may fail (no RPC, non-standard token) resolve to undefined
+const tryRead = async <T>(read: () => Promise<T>) => {
+  try {
+    return await read();
+  } catch {
+    return undefined;
+  }
+};
+
+const classifySpender = async (
+  spender: string,
+  { addressBook }: CheckContext,
+  provider: ethers.Provider
+): Promise<{ spenderClass: SpenderClass; source?: string }> => {
+  const feeds = AddressListService.getInstance();
+  await feeds.load();
+
+  const darklisted = feeds.getMatches(spender, "darklist");
+  if (darklisted.length) {
+    return {
+      spenderClass: "blocked",
+      source: darklisted.map((match) => match.feed).join(", "),
+    };
+  }
+
+  const entry = addressBook.get(spender.toLowerCase());
+  if (entry?.trust === "blocked") {
+    return { spenderClass: "blocked", source: "address book" };
+  }
+  if (entry?.trust === "trusted") return { spenderClass: "trusted" };
+  if (isEstablished(entry) || feeds.isLightlisted(spender)) {
+    return { spenderClass: "established" };
+  }
+
+  const code = await tryRead(() => provider.getCode(spender));
+  return { spenderClass: code === "0x" ? "eoa" : "unknown" };
+};
+
+const analyzeApproval = async (
+  approval: Approval,
+  context: CheckContext,
+  provider: ethers.Provider
+): Promise<SecurityCheck> => {
+  const { token, spender, owner } = approval;
+  const safe = context.tx.safe;
+  const label = `${approval.kind} of token ${token} to spender ${spender}`;
+
+  if (approval.revoke) {
+    return { safe: true, risk: "none", message: `Revokes ${label}` };
+  }
+
+  // A permit signed by someone else only moves the Safe's gas
+  if (owner.toLowerCase() !== safe.toLowerCase()) {
+    return {
+      safe: true,
+      risk: "low",
+      message: `Relays ${label} signed by ${owner}`,
+      evidence: approval,
+    };
+  }
+
+  const contract = new ethers.Contract(token, TOKEN_READ_ABI, provider);
+  const isNft =
+    approval.kind === "approve" &&
+    (await tryRead(() => contract.supportsInterface(ERC721_INTERFACE_ID))) ===
+      true;
+
+  // ERC-721 approve(to, tokenId) shares its selector with ERC-20 approve
+  if (isNft) {
+    const { spenderClass, source } = await classifySpender(
+      spender,
+      context,
+      provider
+    );
+    const risk = RISK_BY_SPENDER[spenderClass].bounded;
+    return {
+      safe: risk === "none",
+      risk,
+      message: `Approves NFT #${approval.amount} of ${token} to ${spenderClass} spender ${spender}${
+        source ? ` (flagged by ${source})` : ""
+      }`,
+      evidence: { approval, spenderClass },
+    };
+  }
+
+  const [balance, current] = await Promise.all([
+    tryRead<bigint>(() => contract.balanceOf(safe)),
+    approval.kind === "increaseAllowance"
+      ? tryRead<bigint>(() => contract.allowance(safe, spender))
+      : undefined,
+  ]);
+
+  const allowance =
+    approval.amount === undefined
+      ? undefined
+      : approval.amount + (current ?? 0n);
+
+  let exposure: string;
+  let unbounded = true;
+
+  if (allowance === undefined) {
+    exposure = "every token";
+  } else if (allowance >= NEAR_INFINITE) {
+    exposure = "an unlimited allowance";
+  } else if (balance !== undefined && balance > 0n && allowance >= balance) {
+    exposure = `an allowance of ${allowance} covering the Safe's whole balance of ${balance}`;
+  } else {
+    exposure = `an allowance of ${allowance}${
+      balance === undefined ? "" : ` (balance ${balance})`
+    }`;
+    unbounded = false;
+  }
+
+  const { spenderClass, source } = await classifySpender(
+    spender,
+    context,
+    provider
+  );
+  const risk =
+    RISK_BY_SPENDER[spenderClass][unbounded ? "unbounded" : "bounded"];
+
+  return {
+    safe: risk === "none" || risk === "low",
+    risk,
+    message: `${approval.kind} grants ${spenderClass} spender ${spender}${
+      source ? ` (flagged by ${source})` : ""
+    } ${exposure} of token ${token}`,
+    evidence: {
+      approval,
+      spenderClass,
+      allowance: allowance?.toString(),
+      balance: balance?.toString(),
+    },
+  };
+};
+
+const checkApprovalRisks = async (
+  call: TransactionCall,
+  context: CheckContext
+): Promise<SecurityCheck> => {
+  const approvals = extractApprovals(call, context.tx.safe);
+
+  if (!approvals.length) {
+    return {
+      safe: true,
+      risk: "none",
+      message: "No approval risks detected",
+    };
+  }
+
+  // A static network keeps an unreachable RPC from retrying detection
+  const provider = new ethers.JsonRpcProvider(
+    context.safeConfig.rpcUrl,
+    Number(context.chainId),
+    { staticNetwork: true }
+  );
+
+  try {
+    const results = await Promise.all(
+      approvals.map((approval) => analyzeApproval(approval, context, provider))
+    );
+    if (results.length === 1) return results[0];
+
+    return {
+      safe: results.every((result) => result.safe),
+      risk: highestRisk(results),
+      message: results.map((result) => result.message).join("; "),
+      evidence: results.map((result) => result.evidence),
+    };
+  } finally {
+    provider.destroy();
+  }
+};
+
+export const approvalRisksCheck: SecurityCheckDefinition = {
+  id: "approvalRisks",
+  description:
+    "Grades token approvals, operator approvals and permits by spender and by allowance against the Safe's balance",
+  defaultSeverity: "high",
+  enabled: true,
+  timeoutMs: 10000,
+  run: perCall(checkApprovalRisks),
+};
@@ -0,0 +1,189 @@
+import { ethers } from "ethers";
+import {
+  CheckContext,
+  RiskLevel,
+  SecurityCheck,
+  SecurityCheckDefinition,
+} from "./types";
+import { TransactionCall } from "../utils/multiSend";
+import { BytecodeProfile, Capability, scanBytecode } from "../bytecode/scanner";
+import { getMaliciousCodeLabel } from "../bytecode/maliciousCode";
+import { resolveProxy } from "../provenance/proxy";
+import { destroyOnAbort, highestRisk, perCall } from "./helpers";
+
+// Risk of each capability in code the Safe calls into
+const CAPABILITY_RISK: Record<Capability, RiskLevel> = {
+  selfdestruct: "high",
+  // Deprecated since Homestead; no modern compiler emits it
+  callcode: "high",
+  delegatecall: "medium",
+  // Factories use it legitimately; with selfdestruct it allows
+  // redeploying different code at the same address
+  create2: "low",
+};
+
+interface ScannedCode {
+  address: string;
+  // How the target reaches this code: its own, or an implementation
+  role: "target" | "implementation" | "delegate";
+  profile: BytecodeProfile;
+}
+
+interface Finding {
+  risk: RiskLevel;
+  message: string;
+}
+
+// Grades one piece of code; forwarding code's own delegatecall is expected
+const gradeCode = (
+  { address, role, profile }: ScannedCode,
+  forwards: boolean
+): Finding[] => {
+  const label = role === "target" ? address : `${role} ${address}`;
+  const findings: Finding[] = [];
+
+  const malicious = getMaliciousCodeLabel(profile.codeHash);
+  if (malicious) {
+    findings.push({
+      risk: "critical",
+      message: `${label} runs known-malicious code (${malicious})`,
+    });
+  }
+
+  for (const capability of profile.capabilities) {
+    if (forwards && capability === "delegatecall") continue;
+    findings.push({
+      risk: CAPABILITY_RISK[capability],
+      message: `${label} can ${capability.toUpperCase()}`,
+    });
+  }
+  if (
+    profile.capabilities.includes("selfdestruct") &&
+    profile.capabilities.includes("create2")
+  ) {
+    findings.push({
+      risk: "high",
+      message: `${label} can redeploy different code at its address (CREATE2 with SELFDESTRUCT)`,
+    });
+  }
+
+  if (profile.hiddenHooks.length) {
+    findings.push({
+      risk: "medium",
+      message: `${label} has owner-controlled transfer hooks: ${profile.hiddenHooks
+        .map((hook) => `${hook.signature} (${hook.kind})`)
+        .join(", ")}`,
+    });
+  }
+
+  return findings;
+};
+
+/**
+ * Disassembles the target's runtime code, and the code it forwards to when
+ * it is a proxy, clone or EIP-7702 delegated account.
+ */
+const checkBytecodeRisks = async (
+  call: TransactionCall,
+  { tx, chainId, safeConfig, signal }: CheckContext
+): Promise<SecurityCheck> => {
+  if (call.to.toLowerCase() === tx.safe.toLowerCase()) {
+    return { safe: true, risk: "none", message: "Call to the Safe itself" };
+  }
+
+  // A static network keeps an unreachable RPC from retrying detection
+  const provider = new ethers.JsonRpcProvider(
+    safeConfig.rpcUrl,
+    Number(chainId),
+    { staticNetwork: true }
+  );
+  const detach = destroyOnAbort(provider, signal);
+
+  try {
+    const code = await provider.getCode(call.to);
+    if (code === "0x") {
+      return { safe: true, risk: "none", message: "Not a contract address" };
+    }
+
+    const target = scanBytecode(code);
+    const scanned: ScannedCode[] = [
+      { address: call.to, role: "target", profile: target },
+    ];
+
+    const forwardsTo = target.delegatedTo
+      ? { address: target.delegatedTo, role: "delegate" as const }
+      : target.minimalProxyOf
+        ? { address: target.minimalProxyOf, role: "implementation" as const }
+        : await resolveProxy(provider, call.to).then((proxy) =>
+            proxy
+              ? {
+                  address: proxy.implementation,
+                  role: "implementation" as const,
+                }
+              : undefined
+          );
+
+    if (forwardsTo) {
+      const forwardedCode = await provider.getCode(forwardsTo.address);
+      if (forwardedCode !== "0x") {
+        scanned.push({ ...forwardsTo, profile: scanBytecode(forwardedCode) });
+      }
+    }
+
+    const findings = scanned.flatMap((code) =>
+      gradeCode(code, code.role === "target" && forwardsTo !== undefined)
+    );
+    const evidence = scanned.map(({ address, role, profile }) => ({
+      address,
+      role,
+      codeHash: profile.codeHash,
+      size: profile.size,
+      capabilities: profile.capabilities,
+      minimalProxyOf: profile.minimalProxyOf,
+      delegatedTo: profile.delegatedTo,
+      hiddenHooks: profile.hiddenHooks,
+    }));
+    const risk = highestRisk(findings);
+    const notes = [
+      ...(target.delegatedTo
+        ? [
+            `${call.to} is an EOA delegating to ${target.delegatedTo} (EIP-7702)`,
+          ]
+        : []),
+      ...(target.minimalProxyOf
+        ? [`${call.to} is a minimal proxy of ${target.minimalProxyOf}`]
+        : []),
+    ];
+
+    if (!findings.length) {
+      return {
+        safe: true,
+        risk: "none",
+        message: [...notes, "No risky bytecode capabilities found"].join("; "),
+        evidence,
+      };
+    }
+
+    return {
+      safe: risk === "none" || risk === "low",
+      risk,
+      message: [...notes, ...findings.map((finding) => finding.message)].join(
+        "; "
+      ),
+      evidence,
+    };
+  } finally {
+    detach();
+    provider.destroy();
+  }
+};
+
+export const bytecodeRisksCheck: SecurityCheckDefinition = {
+  id: "bytecodeRisks",
+  description:
+    "Disassembles target contracts for SELFDESTRUCT, DELEGATECALL, CALLCODE and CREATE2, clones, EIP-7702 delegation, owner-controlled transfer hooks and known-malicious code",
+  defaultSeverity: "medium",
+  enabled: true,
+  timeoutMs: 10000,
+  run: perCall(checkBytecodeRisks),
+};
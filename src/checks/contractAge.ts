@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import { CheckContext, SecurityCheck, SecurityCheckDefinition } from "./types";
+import { TransactionCall } from "../utils/multiSend";
+import { assessProvenance, formatAge } from "../provenance/contractProvenance";
+import { destroyOnAbort, perCall } from "./helpers";
+
+/**
+ * Looks up when and by whom the target contract was deployed: young
+ * contracts, throwaway deployers and darklisted deployers are flagged.
+ */
+const checkContractAge = async (
+  call: TransactionCall,
+  { tx, chainId, safeConfig, signal }: CheckContext
+): Promise<SecurityCheck> => {
+  if (call.to.toLowerCase() === tx.safe.toLowerCase()) {
+    return { safe: true, risk: "none", message: "Call to the Safe itself" };
+  }
+
+  // A static network keeps an unreachable RPC from retrying detection
+  const provider = new ethers.JsonRpcProvider(
+    safeConfig.rpcUrl,
+    Number(chainId),
+    { staticNetwork: true }
+  );
+  const detach = destroyOnAbort(provider, signal);
+
+  try {
+    const [code, latest] = await Promise.all([
+      provider.getCode(call.to),
+      provider.getBlock("latest"),
+    ]);
+    if (!latest) throw new Error("Latest block not found");
+
+    if (code === "0x") {
+      return {
+        safe: true,
+        risk: "none",
+        message: "Not a contract address",
+      };
+    }
+
+    const provenance = await assessProvenance(
+      provider,
+      Number(chainId),
+      call.to,
+      latest
+    );
+    const { deployer, deployerMatches, ageDays } = provenance;
+    const evidence = { address: call.to, ...provenance };
+
+    if (deployerMatches.length) {
+      return {
+        safe: false,
+        risk: "critical",
+        message: `Contract ${call.to} was deployed by ${deployer}, known to be malicious (${deployerMatches
+          .map((match) =>
+            match.comment ? `${match.feed}: ${match.comment}` : match.feed
+          )
+          .join("; ")})`,
+        evidence,
+      };
+    }
+
+    const findings: string[] = [];
+
+    if (provenance.young) {
+      findings.push(
+        `deployed ${formatAge(ageDays)} ago (${provenance.ageBlocks} blocks)`
+      );
+    }
+    if (provenance.freshDeployer) {
+      findings.push(
+        `deployed by fresh wallet ${deployer} (${provenance.deployerNonce} prior transactions)`
+      );
+    }
+
+    if (findings.length) {
+      return {
+        safe: false,
+        risk: provenance.young ? "high" : "medium",
+        message: `Contract ${call.to} ${findings.join(" and ")}`,
+        evidence,
+      };
+    }
+
+    return {
+      safe: true,
+      risk: "none",
+      message: `Contract deployed ${formatAge(ageDays)} ago${
+        deployer ? ` by ${deployer}` : ""
+      }`,
+      evidence,
+    };
+  } catch (error) {
+    return {
+      safe: false,
+      risk: "medium",
+      message: `Unable to verify contract age: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  } finally {
+    detach();
+    provider.destroy();
+  }
+};
+
+export const contractAgeCheck: SecurityCheckDefinition = {
+  id: "contractAge",
+  description:
+    "Flags target contracts deployed recently, by a fresh wallet or by a darklisted deployer (needs an archive RPC)",
+  defaultSeverity: "medium",
+  enabled: true,
+  timeoutMs: 20000,
+  run: perCall(checkContractAge),
+};
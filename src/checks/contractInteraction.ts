@@ -0,0 +1,78 @@
+import { SecurityCheck, SecurityCheckDefinition } from "./types";
+import { TransactionCall } from "../utils/multiSend";
+import { DecodedCall } from "../utils/calldata";
+import { SUSPICIOUS_SIGNATURES, VERIFIED_CONTRACTS } from "./patterns";
+import { maxUint256, perCall } from "./helpers";
+
+const hasUnlimitedAmount = (decoded: DecodedCall) =>
+  decoded.params.some(
+    (param) =>
+      param.type.startsWith("uint") && param.value === maxUint256.toString()
+  );
+
+const checkContractInteraction = async (
+  call: TransactionCall
+): Promise<SecurityCheck> => {
+  const { decoded } = call;
+
+  if (!call.data || call.data === "0x") {
+    return {
+      safe: true,
+      risk: "none",
+      message: "Simple ETH transfer - no contract interaction",
+    };
+  }
+
+  // Check if it's a verified contract
+  if (VERIFIED_CONTRACTS.has(call.to)) {
+    return {
+      safe: true,
+      risk: "none",
+      message: "Interaction with verified contract",
+    };
+  }
+
+  if (!decoded) {
+    return {
+      safe: true,
+      risk: "medium",
+      message: `Unknown function selector ${call.data.slice(
+        0,
+        10
+      )} - calldata could not be decoded`,
+    };
+  }
+
+  // Check for suspicious function signatures
+  if (Object.values(SUSPICIOUS_SIGNATURES).includes(decoded.selector)) {
+    return {
+      safe: false,
+      risk: "high",
+      message: `Suspicious contract interaction detected: ${decoded.signature}`,
+    };
+  }
+
+  // Check for unlimited approvals
+  if (hasUnlimitedAmount(decoded)) {
+    return {
+      safe: false,
+      risk: "high",
+      message: "Unlimited token approval detected",
+    };
+  }
+
+  return {
+    safe: true,
+    risk: "low",
+    message: `Contract interaction appears normal (${decoded.method})`,
+  };
+};
+
+export const contractInteractionCheck: SecurityCheckDefinition = {
+  id: "contractInteraction",
+  description: "Classifies the function being called on the target contract",
+  defaultSeverity: "high",
+  enabled: true,
+  timeoutMs: 5000,
+  run: perCall(checkContractInteraction),
+};
@@ -0,0 +1,69 @@
+import { CheckContext, SecurityCheck, SecurityCheckDefinition } from "./types";
+import { isBatchCall, TransactionCall } from "../utils/multiSend";
+import { perCall } from "./helpers";
+import { getCounterparty, isEstablished } from "../addressBook/addressBook";
+
+const describe = (address: string, label?: string) =>
+  label ? `${label} (${address})` : address;
+
+// Grades the counterparty of each call by the Safe's address book: blocked
+// addresses are critical, addresses the Safe never dealt with are flagged
+const checkCounterparty = async (
+  call: TransactionCall,
+  { tx, addressBook }: CheckContext
+): Promise<SecurityCheck> => {
+  // Nested batch containers are judged through their inner calls
+  if (isBatchCall(call)) {
+    return { safe: true, risk: "none", message: "Batch container call" };
+  }
+
+  const counterparty = getCounterparty(call, tx.safe);
+
+  if (counterparty.toLowerCase() === tx.safe.toLowerCase()) {
+    return { safe: true, risk: "none", message: "Call to the Safe itself" };
+  }
+
+  const entry = addressBook.get(counterparty.toLowerCase());
+
+  if (!entry) {
+    return {
+      safe: false,
+      risk: "medium",
+      message: `First interaction with unknown counterparty ${counterparty}`,
+    };
+  }
+
+  const name = describe(entry.address, entry.label);
+
+  if (entry.trust === "blocked") {
+    return {
+      safe: false,
+      risk: "critical",
+      message: `Counterparty ${name} is blocked in the address book (added by ${entry.addedBy})`,
+    };
+  }
+
+  if (entry.trust === "trusted") {
+    return {
+      safe: true,
+      risk: "none",
+      message: `Trusted counterparty ${name}`,
+    };
+  }
+
+  return {
+    safe: true,
+    risk: isEstablished(entry) ? "none" : "low",
+    message: `Known counterparty ${name} (${entry.interactions} prior transaction(s))`,
+  };
+};
+
+export const counterpartyCheck: SecurityCheckDefinition = {
+  id: "counterparty",
+  description:
+    "Grades each recipient or call target by the Safe's address book and flags first-time counterparties",
+  defaultSeverity: "medium",
+  enabled: true,
+  timeoutMs: 5000,
+  run: perCall(checkCounterparty),
+};
@@ -0,0 +1,47 @@
+import { SecurityCheck, SecurityCheckDefinition, CheckContext } from "./types";
+import { TransactionCall } from "../utils/multiSend";
+import { getAllowlistedDelegate } from "../utils/delegateCallAllowlist";
+import { perCall } from "./helpers";
+
+const OPERATION_DELEGATECALL = 1;
+
+// A delegatecall runs the target's code in the Safe's own storage context, so
+// it can rewrite owners, modules or the guard. Only pinned libraries pass.
+const checkDelegateCall = async (
+  call: TransactionCall,
+  { chainId }: CheckContext
+): Promise<SecurityCheck> => {
+  if (call.operation !== OPERATION_DELEGATECALL) {
+    return {
+      safe: true,
+      risk: "none",
+      message: "No delegatecall operation",
+    };
+  }
+
+  const library = getAllowlistedDelegate(chainId, call.to);
+
+  if (library) {
+    return {
+      safe: true,
+      risk: "low",
+      message: `Delegatecall to allowlisted library ${library}`,
+    };
+  }
+
+  return {
+    safe: false,
+    risk: "critical",
+    message: `Delegatecall to non-allowlisted contract ${call.to} on chain ${chainId} - can modify Safe owners, modules or guard`,
+  };
+};
+
+export const delegateCallCheck: SecurityCheckDefinition = {
+  id: "delegateCall",
+  description:
+    "Blocks delegatecalls to contracts outside the per-chain library allowlist",
+  defaultSeverity: "critical",
+  enabled: true,
+  timeoutMs: 5000,
+  run: perCall(checkDelegateCall, { includeBatchCall: true }),
+};
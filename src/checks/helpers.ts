@@ -0,0 +1,84 @@
+import { ethers } from "ethers";
+import { TransactionCall } from "../utils/multiSend";
+import { CheckContext, RISK_LEVELS, RiskLevel, SecurityCheck } from "./types";
+
+export const maxUint256 = 2n ** 256n - 1n;
+
+export const compareRisk = (a: RiskLevel, b: RiskLevel) =>
+  RISK_LEVELS.indexOf(a) - RISK_LEVELS.indexOf(b);
+
+export const highestRisk = (results: { risk: RiskLevel }[]): RiskLevel =>
+  results.reduce<RiskLevel>(
+    (current, result) =>
+      compareRisk(result.risk, current) > 0 ? result.risk : current,
+    "none"
+  );
+
+// Destroy the provider once the analysis is aborted, failing its pending and
+// later requests; the returned function detaches it from the signal
+export const destroyOnAbort = (
+  provider: ethers.AbstractProvider,
+  signal?: AbortSignal
+) => {
+  const destroy = () => provider.destroy();
+
+  if (signal?.aborted) destroy();
+  signal?.addEventListener("abort", destroy, { once: true });
+
+  return () => signal?.removeEventListener("abort", destroy);
+};
+
+// Attach the inner call index to a result produced for a batched call
+export const withCallIndex = (
+  call: TransactionCall,
+  result: SecurityCheck
+): SecurityCheck =>
+  call.index === null ? result : { ...result, callIndex: call.index };
+
+// Combine the per-call results of one check into a single result, keeping
+// the worst finding as the headline and every inner call's result attached
+export const rollUpCheck = (results: SecurityCheck[]): SecurityCheck => {
+  if (results.length === 0) {
+    return { safe: true, risk: "none", message: "No calls to check" };
+  }
+
+  if (results.length === 1 && results[0].callIndex === undefined) {
+    return results[0];
+  }
+
+  const worst = results.reduce((current, result) =>
+    compareRisk(result.risk, current.risk) > 0 ? result : current
+  );
+
+  return {
+    safe: results.every((result) => result.safe),
+    risk: worst.risk,
+    message:
+      worst.callIndex === undefined
+        ? worst.message
+        : `[call #${worst.callIndex}] ${worst.message}`,
+    findings: results,
+  };
+};
+
+/**
+ * Build a check `run` function that applies a per-call check to every call
+ * the Safe executes and rolls the results up.
+ */
+export const perCall =
+  (
+    check: (
+      call: TransactionCall,
+      context: CheckContext
+    ) => Promise<SecurityCheck>,
+    { includeBatchCall = false }: { includeBatchCall?: boolean } = {}
+  ) =>
+  async (context: CheckContext): Promise<SecurityCheck> => {
+    const calls = includeBatchCall ? context.executedCalls : context.calls;
+
+    const results = await Promise.all(
+      calls.map(async (call) => withCallIndex(call, await check(call, context)))
+    );
+
+    return rollUpCheck(results);
+  };
@@ -0,0 +1,60 @@
+import { SecurityCheck, SecurityCheckDefinition } from "./types";
+import { TransactionCall } from "../utils/multiSend";
+import { SUSPICIOUS_PATTERNS } from "./patterns";
+import { perCall } from "./helpers";
+
+const checkKnownScams = async (
+  call: TransactionCall
+): Promise<SecurityCheck> => {
+  const { decoded } = call;
+
+  if (!decoded) {
+    return {
+      safe: true,
+      risk: "none",
+      message: "No known scam patterns detected",
+    };
+  }
+
+  if (SUSPICIOUS_PATTERNS.POTENTIAL_PHISHING.test(decoded.method)) {
+    return {
+      safe: false,
+      risk: "critical",
+      message: `Transaction matches known scam patterns (${decoded.method})`,
+    };
+  }
+
+  const maliciousPatterns = [
+    {
+      pattern: /mint|claim|reward/i,
+      message: "Suspicious token minting or claiming",
+    },
+    { pattern: /upgrade|migrate/i, message: "Suspicious upgrade or migration" },
+    { pattern: /emergency|urgent/i, message: "Suspicious emergency action" },
+  ];
+
+  for (const { pattern, message } of maliciousPatterns) {
+    if (pattern.test(decoded.method)) {
+      return {
+        safe: false,
+        risk: "high",
+        message: `${message} (${decoded.method})`,
+      };
+    }
+  }
+
+  return {
+    safe: true,
+    risk: "none",
+    message: "No known scam patterns detected",
+  };
+};
+
+export const knownScamsCheck: SecurityCheckDefinition = {
+  id: "knownScams",
+  description: "Matches decoded method names against known scam patterns",
+  defaultSeverity: "high",
+  enabled: true,
+  timeoutMs: 5000,
+  run: perCall(checkKnownScams),
+};
@@ -0,0 +1,26 @@
+export const VERIFIED_CONTRACTS = new Set([
+  "0x00000000006c3852cbEf3e08E8dF289169EdE581",
+  "0x7Be8076f4EA4A4AD08075C2508e481d6C946D12b",
+]);
+
+// Known high-risk contract patterns
+export const SUSPICIOUS_PATTERNS = {
+  POTENTIAL_PHISHING: /(claim|airdrop|free|reward|prize|giveaway)/i,
+};
+
+export const SUSPICIOUS_SIGNATURES = {
+  FAKE_TOKEN: "0xa9059cbb", // transfer()
+  MALICIOUS_APPROVE: "0x095ea7b3", // approve()
+  SUSPICIOUS_MINT: "0x40c10f19", // mint()
+  INITIALIZE: "0x8129fc1c", // initialize()
+};
+
+export const SECURITY_PATTERNS = {
+  UNLIMITED_APPROVAL:
+    /0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff/i,
+  POTENTIAL_PHISHING: /(claim|airdrop|free|reward|prize|giveaway)/i,
+  FLASH_LOAN: /(flash|loan|borrow|lend)/i,
+  BRIDGE_TRANSFER: /(bridge|cross.*chain|wormhole|stargate)/i,
+  PROXY_UPGRADE: /(upgrade|implementation|proxy)/i,
+  OWNERSHIP_TRANSFER: /(transfer.*ownership|new.*owner)/i,
+};
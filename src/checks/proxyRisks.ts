@@ -0,0 +1,264 @@
+import { ethers } from "ethers";
+import { CheckContext, SecurityCheck, SecurityCheckDefinition } from "./types";
+import { TransactionCall } from "../utils/multiSend";
+import { AddressListService } from "../utils/addressLists";
+import {
+  assessProvenance,
+  DAY_SECONDS,
+  formatAge,
+  MIN_CONTRACT_AGE_DAYS,
+  ProvenanceAssessment,
+} from "../provenance/contractProvenance";
+import {
+  extractUpgrade,
+  findImplementationChange,
+  previousImplementation,
+  ProxyUpgrade,
+  readBeaconImplementation,
+  resolveProxy,
+} from "../provenance/proxy";
+import { SUSPICIOUS_SIGNATURES } from "./patterns";
+import { destroyOnAbort, perCall } from "./helpers";
+
+// Reads that need an archive node resolve to undefined without one
+const tryRead = async <T>(read: () => Promise<T>) => {
+  try {
+    return await read();
+  } catch {
+    return undefined;
+  }
+};
+
+const describeFeeds = (address: string) =>
+  AddressListService.getInstance()
+    .getMatches(address, "darklist")
+    .map((match) =>
+      match.comment ? `${match.feed}: ${match.comment}` : match.feed
+    );
+
+const describeProvenance = (provenance: ProvenanceAssessment) =>
+  [
+    `deployed ${formatAge(provenance.ageDays)} ago`,
+    provenance.deployer ? `by ${provenance.deployer}` : "",
+    provenance.freshDeployer
+      ? `(fresh wallet, ${provenance.deployerNonce} prior transactions)`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * Grades a call that changes a proxy's implementation by what it upgrades
+ * to: an address without code, a darklisted implementation or deployer.
+ */
+const checkUpgrade = async (
+  upgrade: ProxyUpgrade,
+  provider: ethers.Provider,
+  chainId: number,
+  latest: ethers.Block
+): Promise<SecurityCheck> => {
+  const { proxy, newImplementation, data } = upgrade;
+
+  const [current, code] = await Promise.all([
+    resolveProxy(provider, proxy),
+    provider.getCode(newImplementation),
+  ]);
+  // An UpgradeableBeacon is not a proxy but exposes its implementation
+  const oldImplementation =
+    current?.implementation ??
+    (await readBeaconImplementation(provider, proxy));
+
+  const evidence: Record<string, unknown> = {
+    proxy,
+    kind: current?.kind,
+    oldImplementation,
+    newImplementation,
+    data,
+  };
+  const summary = `Upgrades ${
+    current ? `${current.kind} proxy` : "proxy"
+  } ${proxy} from ${oldImplementation ?? "an unknown implementation"} to ${newImplementation}${
+    data && data !== "0x" ? ` and calls it (${data.slice(0, 10)})` : ""
+  }`;
+
+  if (code === "0x") {
+    return {
+      safe: false,
+      risk: "critical",
+      message: `${summary}, which has no code`,
+      evidence,
+    };
+  }
+
+  await AddressListService.getInstance().load();
+  const implementationMatches = describeFeeds(newImplementation);
+  if (implementationMatches.length) {
+    return {
+      safe: false,
+      risk: "critical",
+      message: `${summary}, known to be malicious (${implementationMatches.join(
+        "; "
+      )})`,
+      evidence,
+    };
+  }
+
+  const provenance = await tryRead(() =>
+    assessProvenance(provider, chainId, newImplementation, latest)
+  );
+  evidence.provenance = provenance;
+
+  if (provenance?.deployerMatches.length) {
+    return {
+      safe: false,
+      risk: "critical",
+      message: `${summary}, deployed by ${
+        provenance.deployer
+      }, known to be malicious (${describeFeeds(provenance.deployer!).join(
+        "; "
+      )})`,
+      evidence,
+    };
+  }
+
+  return {
+    safe: false,
+    risk: "high",
+    message: `${summary}; new implementation ${
+      provenance ? describeProvenance(provenance) : "of unknown provenance"
+    } - verify it`,
+    evidence,
+  };
+};
+
+/**
+ * Resolves the implementation behind a called proxy and reports when it
+ * changed recently.
+ */
+const checkProxy = async (
+  address: string,
+  provider: ethers.Provider,
+  chainId: number,
+  latest: ethers.Block
+): Promise<SecurityCheck> => {
+  const info = await resolveProxy(provider, address);
+  if (!info) {
+    return { safe: true, risk: "none", message: "No proxy risks detected" };
+  }
+
+  const { kind, implementation } = info;
+  const evidence: Record<string, unknown> = { proxy: address, ...info };
+
+  await AddressListService.getInstance().load();
+  const matches = describeFeeds(implementation);
+  if (matches.length) {
+    return {
+      safe: false,
+      risk: "critical",
+      message: `${kind} proxy ${address} runs implementation ${implementation}, known to be malicious (${matches.join(
+        "; "
+      )})`,
+      evidence,
+    };
+  }
+
+  const changeBlock = await tryRead(() =>
+    findImplementationChange(provider, chainId, address, info, latest.number)
+  );
+  const [changedAt, oldImplementation] =
+    changeBlock === undefined
+      ? []
+      : await Promise.all([
+          tryRead(() => provider.getBlock(changeBlock)),
+          tryRead(() =>
+            previousImplementation(provider, address, info, changeBlock)
+          ),
+        ]);
+
+  if (changedAt && oldImplementation) {
+    const ageDays = (latest.timestamp - changedAt.timestamp) / DAY_SECONDS;
+    Object.assign(evidence, {
+      oldImplementation,
+      changedAtBlock: changeBlock,
+      changedDaysAgo: ageDays,
+    });
+
+    if (ageDays < MIN_CONTRACT_AGE_DAYS) {
+      return {
+        safe: false,
+        risk: "medium",
+        message: `${kind} proxy ${address} was upgraded ${formatAge(
+          ageDays
+        )} ago from ${oldImplementation} to ${implementation}`,
+        evidence,
+      };
+    }
+  }
+
+  return {
+    safe: true,
+    risk: "none",
+    message: `${kind} proxy ${address} runs implementation ${implementation}${
+      changeBlock === undefined ? " (upgrade history unavailable)" : ""
+    }`,
+    evidence,
+  };
+};
+
+const checkProxyRisks = async (
+  call: TransactionCall,
+  { chainId, safeConfig, signal }: CheckContext
+): Promise<SecurityCheck> => {
+  const upgrade = extractUpgrade(call);
+
+  if (!upgrade && call.decoded?.selector === SUSPICIOUS_SIGNATURES.INITIALIZE) {
+    return {
+      safe: false,
+      risk: "high",
+      message:
+        "Contract initialization detected - potential proxy manipulation",
+    };
+  }
+
+  // A static network keeps an unreachable RPC from retrying detection
+  const provider = new ethers.JsonRpcProvider(
+    safeConfig.rpcUrl,
+    Number(chainId),
+    { staticNetwork: true }
+  );
+  const detach = destroyOnAbort(provider, signal);
+
+  try {
+    const latest = await provider.getBlock("latest");
+    if (!latest) throw new Error("Latest block not found");
+
+    return upgrade
+      ? await checkUpgrade(upgrade, provider, Number(chainId), latest)
+      : await checkProxy(call.to, provider, Number(chainId), latest);
+  } catch (error) {
+    // An upgrade is risky even when its target cannot be inspected
+    return {
+      safe: !upgrade,
+      risk: upgrade ? "high" : "low",
+      message: upgrade
+        ? `Proxy upgrade of ${upgrade.proxy} to ${upgrade.newImplementation} - verify new implementation`
+        : `Unable to resolve proxy implementation: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+      evidence: upgrade ?? undefined,
+    };
+  } finally {
+    detach();
+    provider.destroy();
+  }
+};
+
+export const proxyRisksCheck: SecurityCheckDefinition = {
+  id: "proxyRisks",
+  description:
+    "Resolves EIP-1967, EIP-1822, Transparent, Beacon and Safe proxy implementations, flags recent and pending upgrades and grades the new implementation",
+  defaultSeverity: "high",
+  enabled: true,
+  timeoutMs: 20000,
+  run: perCall(checkProxyRisks),
+};
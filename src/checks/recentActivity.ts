@@ -0,0 +1,234 @@
+import { CheckContext, SecurityCheck, SecurityCheckDefinition } from "./types";
+import { PriceService } from "../pricing/priceService";
+import { NATIVE } from "../pricing/types";
+import { OutflowLedger } from "../velocity/outflowLedger";
+import { appliesTo, scopeKey } from "../velocity/limits";
+import { LedgerEntry, VelocityLimit } from "../velocity/types";
+
+// Share of a limit at which the check starts reporting it
+const WARN_RATIO = 0.8;
+
+type Outflow = Pick<LedgerEntry, "token" | "recipient" | "units" | "usd">;
+
+interface LimitUsage {
+  limit: VelocityLimit;
+  key: string;
+  used: number;
+  max: number;
+  unit: "usd" | "amount";
+}
+
+const describeLimit = ({ limit, key }: LimitUsage) => {
+  const scope =
+    limit.scope === "safe"
+      ? "the Safe"
+      : `${limit.scope} ${describeToken(key)}`;
+  return `${limit.window} limit for ${scope}`;
+};
+
+const describeToken = (token: string) => (token === NATIVE ? "native" : token);
+
+const formatUsage = ({ used, max, unit }: LimitUsage) =>
+  unit === "usd"
+    ? `$${Math.round(used).toLocaleString("en-US")} of $${max.toLocaleString(
+        "en-US"
+      )}`
+    : `${used.toLocaleString("en-US")} of ${max.toLocaleString(
+        "en-US"
+      )} tokens`;
+
+// Usage of one limit per scope group the pending outflows touch, counting
+// the pending outflows on top of the window's history
+const usageOf = (
+  limit: VelocityLimit,
+  pending: Outflow[],
+  history: LedgerEntry[]
+): LimitUsage[] => {
+  const since = Date.now() - limit.windowMs;
+  const counted = pending.filter((outflow) => appliesTo(limit, outflow));
+  const keys = new Set(counted.map((outflow) => scopeKey(limit, outflow)));
+
+  return [...keys].flatMap((key) => {
+    const outflows = [
+      ...counted,
+      ...history.filter(
+        (entry) =>
+          Date.parse(entry.timestamp) >= since && appliesTo(limit, entry)
+      ),
+    ].filter((outflow) => scopeKey(limit, outflow) === key);
+
+    const usage: LimitUsage[] = [];
+    if (limit.maxUsd !== undefined) {
+      usage.push({
+        limit,
+        key,
+        used: outflows.reduce((sum, outflow) => sum + (outflow.usd ?? 0), 0),
+        max: limit.maxUsd,
+        unit: "usd",
+      });
+    }
+    if (limit.maxAmount !== undefined) {
+      usage.push({
+        limit,
+        key,
+        used: outflows.reduce((sum, outflow) => sum + (outflow.units ?? 0), 0),
+        max: limit.maxAmount,
+        unit: "amount",
+      });
+    }
+    return usage;
+  });
+};
+
+// USD limits cannot count outflows nobody prices, so those are tallied per
+// token over the longest USD window instead
+const unpricedByToken = (
+  limits: VelocityLimit[],
+  pending: Outflow[],
+  history: LedgerEntry[]
+) => {
+  const usdLimits = limits.filter((limit) => limit.maxUsd !== undefined);
+  const isUnpriced = (outflow: Outflow) =>
+    outflow.usd === undefined &&
+    usdLimits.some((limit) => appliesTo(limit, outflow));
+
+  const tokens = new Set(
+    pending.filter(isUnpriced).map((outflow) => outflow.token.toLowerCase())
+  );
+  if (!tokens.size) return [];
+
+  const since =
+    Date.now() - Math.max(...usdLimits.map((limit) => limit.windowMs));
+  const window = [
+    ...pending,
+    ...history.filter((entry) => Date.parse(entry.timestamp) >= since),
+  ].filter(isUnpriced);
+
+  return [...tokens].map((token) => {
+    const outflows = window.filter(
+      (outflow) => outflow.token.toLowerCase() === token
+    );
+    return {
+      token,
+      count: outflows.length,
+      units: outflows.reduce((sum, outflow) => sum + (outflow.units ?? 0), 0),
+    };
+  });
+};
+
+/**
+ * Applies the Safe's velocity limits: cumulative outflows per Safe, token
+ * or destination over rolling windows, from executed history and the
+ * agent's own signatures, plus this transaction.
+ */
+const checkRecentActivity = async ({
+  tx,
+  calls,
+  safeConfig,
+  signingMode,
+}: CheckContext): Promise<SecurityCheck> => {
+  const limits = safeConfig.velocityLimits;
+
+  if (!limits.length) {
+    return {
+      safe: true,
+      risk: "none",
+      message: "No velocity limits configured",
+    };
+  }
+
+  const prices = PriceService.getInstance();
+  const pending = (
+    await Promise.all(
+      calls.map((call) => prices.valueOutflows(safeConfig, call, tx.safe))
+    )
+  ).flat();
+
+  if (!pending.length) {
+    return { safe: true, risk: "none", message: "Transaction moves no value" };
+  }
+
+  const longest = Math.max(...limits.map((limit) => limit.windowMs));
+  // A re-analysed transaction the agent already signed is not counted twice
+  const history = (
+    await OutflowLedger.getInstance().entriesSince(
+      safeConfig,
+      longest,
+      signingMode
+    )
+  ).filter((entry) => entry.safeTxHash !== tx.safeTxHash);
+
+  const usage = limits.flatMap((limit) => usageOf(limit, pending, history));
+  const exceeded = usage.filter(({ used, max }) => used > max);
+  const nearing = usage.filter(
+    ({ used, max }) => used <= max && used > max * WARN_RATIO
+  );
+  const unpriced = unpricedByToken(limits, pending, history);
+  const evidence = {
+    usage: usage.map((entry) => ({
+      window: entry.limit.window,
+      scope: entry.limit.scope,
+      key: entry.key,
+      used: entry.used,
+      max: entry.max,
+      unit: entry.unit,
+    })),
+    unpriced,
+  };
+
+  if (exceeded.length) {
+    return {
+      safe: false,
+      risk: "high",
+      message: `Velocity limit exceeded: ${exceeded
+        .map((entry) => `${describeLimit(entry)} at ${formatUsage(entry)}`)
+        .join("; ")}`,
+      evidence,
+    };
+  }
+
+  // Unpriced outflows could add up to anything, so a human judges them
+  if (unpriced.length) {
+    return {
+      safe: false,
+      risk: "medium",
+      message: `Unpriced outflows cannot be checked against USD velocity limits: ${unpriced
+        .map(
+          ({ token, count, units }) =>
+            `${describeToken(token)}: ${count} outflow(s)${
+              units ? ` totalling ${units.toLocaleString("en-US")} tokens` : ""
+            } in the window`
+        )
+        .join("; ")}`,
+      evidence,
+    };
+  }
+
+  if (nearing.length) {
+    return {
+      safe: true,
+      risk: "low",
+      message: nearing
+        .map((entry) => `${describeLimit(entry)} at ${formatUsage(entry)}`)
+        .join("; "),
+      evidence,
+    };
+  }
+
+  return {
+    safe: true,
+    risk: "none",
+    message: "Outflows within velocity limits",
+    evidence,
+  };
+};
+
+export const recentActivityCheck: SecurityCheckDefinition = {
+  id: "recentActivity",
+  description:
+    "Enforces per-Safe velocity limits on cumulative outflows over rolling windows",
+  defaultSeverity: "high",
+  enabled: true,
+  timeoutMs: 10000,
+  run: checkRecentActivity,
+};
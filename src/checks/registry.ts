@@ -0,0 +1,199 @@
+import fs from "fs";
+import path from "path";
+import { Logger } from "../utils/logger";
+import {
+  CheckConfig,
+  CheckContext,
+  RISK_LEVELS,
+  SecurityCheck,
+  SecurityCheckDefinition,
+  SecurityChecks,
+} from "./types";
+import { addressPoisoningCheck } from "./addressPoisoning";
+import { addressSimilarityCheck } from "./addressSimilarity";
+import { approvalRisksCheck } from "./approvalRisks";
+import { bytecodeRisksCheck } from "./bytecodeRisks";
+import { contractAgeCheck } from "./contractAge";
+import { contractInteractionCheck } from "./contractInteraction";
+import { counterpartyCheck } from "./counterparty";
+import { delegateCallCheck } from "./delegateCall";
+import { knownScamsCheck } from "./knownScams";
+import { proxyRisksCheck } from "./proxyRisks";
+import { recentActivityCheck } from "./recentActivity";
+import { safeConfigurationCheck } from "./safeConfiguration";
+import { simulationCheck } from "./simulation";
+import { valueTransferCheck } from "./valueTransfer";
+
+const BUILT_IN_CHECKS: SecurityCheckDefinition[] = [
+  addressPoisoningCheck,
+  addressSimilarityCheck,
+  valueTransferCheck,
+  recentActivityCheck,
+  counterpartyCheck,
+  contractInteractionCheck,
+  knownScamsCheck,
+  approvalRisksCheck,
+  delegateCallCheck,
+  safeConfigurationCheck,
+  proxyRisksCheck,
+  bytecodeRisksCheck,
+  contractAgeCheck,
+  simulationCheck,
+];
+
+const CHECKS_CONFIG_PATH =
+  process.env.CHECKS_CONFIG_PATH ||
+  path.resolve(process.cwd(), "config/checks.json");
+
+const loadCheckConfig = (): Record<string, CheckConfig> => {
+  try {
+    const config: Record<string, CheckConfig> = JSON.parse(
+      fs.readFileSync(CHECKS_CONFIG_PATH, "utf8")
+    );
+
+    for (const [id, entry] of Object.entries(config)) {
+      if (!BUILT_IN_CHECKS.some((check) => check.id === id)) {
+        Logger.warn("security", "Unknown check in checks config", { id });
+      }
+      if (entry.severity && !RISK_LEVELS.includes(entry.severity)) {
+        throw new Error(`Invalid severity "${entry.severity}" for ${id}`);
+      }
+    }
+
+    return config;
+  } catch (error) {
+    Logger.warn("security", "Using default check configuration", {
+      path: CHECKS_CONFIG_PATH,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+};
+
+const reweight =
+  (
+    run: SecurityCheckDefinition["run"],
+    severity: SecurityCheck["risk"]
+  ): SecurityCheckDefinition["run"] =>
+  async (context) => {
+    const result = await run(context);
+    const apply = (check: SecurityCheck): SecurityCheck => ({
+      ...check,
+      risk: check.safe ? check.risk : severity,
+      findings: check.findings?.map(apply),
+    });
+    return apply(result);
+  };
+
+let registry: SecurityCheckDefinition[] | null = null;
+
+/**
+ * All registered checks with the config file's overrides applied.
+ */
+export const getCheckRegistry = (): SecurityCheckDefinition[] => {
+  if (registry) return registry;
+
+  const config = loadCheckConfig();
+
+  registry = BUILT_IN_CHECKS.map((check) => {
+    const overrides = config[check.id] ?? {};
+
+    return {
+      ...check,
+      enabled: overrides.enabled ?? check.enabled,
+      timeoutMs: overrides.timeoutMs ?? check.timeoutMs,
+      defaultSeverity: overrides.severity ?? check.defaultSeverity,
+      run: overrides.severity
+        ? reweight(check.run, overrides.severity)
+        : check.run,
+    };
+  });
+
+  Logger.info("security", "Loaded security checks", {
+    enabled: registry.filter((check) => check.enabled).map((check) => check.id),
+  });
+
+  return registry;
+};
+
+const withTimeout = <T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+) => {
+  let timer: NodeJS.Timeout;
+  let abort: () => void;
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+      abort = () => reject(signal!.reason);
+      if (signal?.aborted) abort();
+      signal?.addEventListener("abort", abort, { once: true });
+    }),
+  ]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  });
+};
+
+/**
+ * Run one check under its timeout. A check that throws or times out fails
+ * closed with its configured severity instead of failing the analysis. An
+ * aborted analysis stops waiting for the check.
+ */
+export const runCheck = async (
+  check: SecurityCheckDefinition,
+  context: CheckContext
+): Promise<SecurityCheck> => {
+  try {
+    return await withTimeout(
+      check.run(context),
+      check.timeoutMs,
+      context.signal
+    );
+  } catch (error) {
+    if (!context.signal?.aborted) {
+      Logger.error("security", "Security check failed", {
+        check: check.id,
+        txHash: context.tx.safeTxHash,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return {
+      safe: false,
+      risk: check.defaultSeverity,
+      message: `Check ${check.id} could not complete: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+};
+
+/**
+ * Run every enabled check in parallel and key the results by check id.
+ * `onResult` is called as each check completes.
+ */
+export const runChecks = async (
+  context: CheckContext,
+  onResult?: (checkId: string, result: SecurityCheck) => void
+): Promise<SecurityChecks> => {
+  const enabledChecks = getCheckRegistry().filter((check) => check.enabled);
+
+  const results = await Promise.all(
+    enabledChecks.map(async (check) => {
+      const result = await runCheck(check, context);
+      onResult?.(check.id, result);
+      return result;
+    })
+  );
+
+  return Object.fromEntries(
+    enabledChecks.map((check, i) => [check.id, results[i]])
+  );
+};
@@ -0,0 +1,142 @@
+import { ethers } from "ethers";
+import { SecurityCheck, SecurityCheckDefinition, CheckContext } from "./types";
+import { getParam } from "../utils/calldata";
+import { rollUpCheck, withCallIndex } from "./helpers";
+
+// Safe methods that change who controls the Safe or what it trusts
+const SAFE_CONFIGURATION_METHODS = new Set([
+  "addOwnerWithThreshold",
+  "removeOwner",
+  "swapOwner",
+  "changeThreshold",
+  "enableModule",
+  "disableModule",
+  "setGuard",
+  "setFallbackHandler",
+]);
+
+// Replays every call the Safe makes to itself against its current owners and
+// threshold, so that a batch of individually harmless changes is judged by
+// the configuration it leaves behind.
+const checkSafeConfiguration = async ({
+  tx,
+  calls,
+  safeInfo,
+  safeConfig,
+}: CheckContext): Promise<SecurityCheck> => {
+  const safeAddress = tx.safe.toLowerCase();
+  let owners = safeInfo.owners.map((owner) => owner.toLowerCase());
+  // Human co-signers that currently own the Safe and must stay owners
+  const humanOwners = safeConfig.humanSigners
+    .map((signer) => signer.toLowerCase())
+    .filter((signer) => owners.includes(signer));
+
+  let threshold = safeInfo.threshold;
+
+  const results = calls.map((call): SecurityCheck => {
+    const { decoded } = call;
+    const withIndex = (result: SecurityCheck) => withCallIndex(call, result);
+
+    if (call.to.toLowerCase() !== safeAddress) {
+      return withIndex({
+        safe: true,
+        risk: "none",
+        message: "No Safe configuration changes",
+      });
+    }
+
+    if (!decoded || !SAFE_CONFIGURATION_METHODS.has(decoded.method)) {
+      return withIndex({
+        safe: false,
+        risk: "high",
+        message: `Unrecognized call to the Safe itself (${
+          decoded?.method ?? call.data.slice(0, 10)
+        })`,
+      });
+    }
+
+    const address = (name: string, index: number) =>
+      String(getParam(decoded, name, index)).toLowerCase();
+    const number = (name: string, index: number) =>
+      Number(getParam(decoded, name, index));
+
+    switch (decoded.method) {
+      case "addOwnerWithThreshold":
+        owners = [...owners, address("owner", 0)];
+        threshold = number("_threshold", 1);
+        break;
+      case "removeOwner":
+        owners = owners.filter((owner) => owner !== address("owner", 1));
+        threshold = number("_threshold", 2);
+        break;
+      case "swapOwner":
+        owners = owners.map((owner) =>
+          owner === address("oldOwner", 1) ? address("newOwner", 2) : owner
+        );
+        break;
+      case "changeThreshold":
+        threshold = number("_threshold", 0);
+        break;
+      case "enableModule":
+        return withIndex({
+          safe: false,
+          risk: "critical",
+          message: `Enables module ${address(
+            "module",
+            0
+          )} - modules can execute transactions without owner signatures`,
+        });
+      case "setGuard":
+        return withIndex({
+          safe: false,
+          risk:
+            address("guard", 0) === ethers.ZeroAddress ? "critical" : "high",
+          message:
+            address("guard", 0) === ethers.ZeroAddress
+              ? "Removes the Safe transaction guard"
+              : `Replaces the Safe transaction guard with ${address("guard", 0)}`,
+        });
+      default:
+        return withIndex({
+          safe: false,
+          risk: "high",
+          message: `Safe configuration change: ${decoded.method}`,
+        });
+    }
+
+    const removedHuman = humanOwners.find((signer) => !owners.includes(signer));
+    if (removedHuman) {
+      return withIndex({
+        safe: false,
+        risk: "critical",
+        message: `${decoded.method} removes the human co-signer ${removedHuman} from the owners`,
+      });
+    }
+
+    if (threshold < safeInfo.threshold) {
+      return withIndex({
+        safe: false,
+        risk: "critical",
+        message: `${decoded.method} lowers the threshold from ${safeInfo.threshold} to ${threshold}`,
+      });
+    }
+
+    return withIndex({
+      safe: false,
+      risk: "high",
+      message: `${decoded.method} changes the Safe to ${threshold} of ${owners.length} owners`,
+    });
+  });
+
+  return rollUpCheck(results);
+};
+
+export const safeConfigurationCheck: SecurityCheckDefinition = {
+  id: "safeConfiguration",
+  description:
+    "Detects calls to the Safe itself that change owners, threshold, modules, guard or fallback handler",
+  defaultSeverity: "critical",
+  enabled: true,
+  timeoutMs: 5000,
+  run: checkSafeConfiguration,
+};
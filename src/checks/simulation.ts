@@ -0,0 +1,170 @@
+import { ethers } from "ethers";
+import {
+  CheckContext,
+  RiskLevel,
+  SecurityCheck,
+  SecurityCheckDefinition,
+} from "./types";
+import { compareRisk, highestRisk } from "./helpers";
+import { getParam } from "../utils/calldata";
+import { simulateTransaction } from "../simulation/simulator";
+import { SimulationResult } from "../simulation/types";
+
+const APPROVAL_METHODS = new Set([
+  "approve",
+  "increaseAllowance",
+  "setApprovalForAll",
+]);
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+// Outflows the decoded calls openly ask for: native value plus ERC-20/721
+// transfers out of the Safe, keyed by lowercase asset ("eth" for native)
+const expectedOutflows = ({ tx, calls }: CheckContext) => {
+  const amounts = new Map<string, bigint>([["eth", 0n]]);
+  const tokenIds = new Set<string>();
+  const add = (asset: string, amount: bigint) =>
+    amounts.set(asset, (amounts.get(asset) ?? 0n) + amount);
+
+  for (const call of calls) {
+    add("eth", BigInt(call.value));
+
+    const { decoded } = call;
+    if (!decoded) continue;
+    const token = call.to.toLowerCase();
+
+    if (decoded.method === "transfer") {
+      add(token, BigInt(String(getParam(decoded, "value", 1))));
+    }
+
+    if (
+      ["transferFrom", "safeTransferFrom"].includes(decoded.method) &&
+      sameAddress(String(getParam(decoded, "from", 0)), tx.safe)
+    ) {
+      const amount = BigInt(String(getParam(decoded, "value", 2)));
+      add(token, amount);
+      tokenIds.add(`${token}:${amount}`);
+    }
+  }
+
+  return { amounts, tokenIds };
+};
+
+const evaluateSimulation = (
+  result: SimulationResult,
+  context: CheckContext
+): { risk: RiskLevel; message: string }[] => {
+  const findings: { risk: RiskLevel; message: string }[] = [];
+  const expected = expectedOutflows(context);
+
+  if (result.reverted) {
+    findings.push({
+      risk: "high",
+      message: `Transaction reverts in simulation${
+        result.revertedCallIndex != null
+          ? ` at call #${result.revertedCallIndex}`
+          : ""
+      }: ${result.revertReason ?? "no reason"}`,
+    });
+  }
+
+  for (const change of result.balanceChanges) {
+    const delta = BigInt(change.delta);
+    const asset = change.asset.toLowerCase();
+
+    if (change.standard === "erc721") {
+      const unexpected = (change.tokenIdsOut ?? []).filter(
+        (tokenId) => !expected.tokenIds.has(`${asset}:${tokenId}`)
+      );
+      if (unexpected.length) {
+        findings.push({
+          risk: "high",
+          message: `Unexpected NFT outflow from ${change.asset}: token ${unexpected.join(", ")}`,
+        });
+      }
+      continue;
+    }
+
+    if (delta < 0n && -delta > (expected.amounts.get(asset) ?? 0n)) {
+      findings.push({
+        risk: "high",
+        message:
+          change.standard === "native"
+            ? `Unexpected ETH outflow of ${ethers.formatEther(-delta)} ETH`
+            : `Unexpected outflow of ${-delta} units of token ${change.asset}`,
+      });
+    }
+  }
+
+  for (const change of result.allowanceChanges) {
+    const granted =
+      change.standard === "operator"
+        ? change.approved
+        : change.standard === "erc721" || BigInt(change.amount ?? "0") > 0n;
+    if (!granted) continue;
+
+    const requested = context.calls.some(
+      (call) =>
+        sameAddress(call.to, change.token) &&
+        !!call.decoded &&
+        APPROVAL_METHODS.has(call.decoded.method)
+    );
+
+    findings.push({
+      risk: requested ? "medium" : "high",
+      message: `${requested ? "New" : "Hidden"} ${
+        change.standard === "operator" ? "operator approval" : "approval"
+      } for ${change.spender} on ${change.token}`,
+    });
+  }
+
+  if (result.unsimulatedCalls.length) {
+    findings.push({
+      risk: "medium",
+      message: `${result.unsimulatedCalls.length} delegatecall(s) could not be simulated`,
+    });
+  }
+
+  return findings;
+};
+
+const checkSimulation = async (
+  context: CheckContext
+): Promise<SecurityCheck> => {
+  const result = await simulateTransaction(
+    context.safeConfig.rpcUrl,
+    context.tx.safe,
+    context.calls,
+    context.signal
+  );
+  const findings = evaluateSimulation(result, context);
+
+  if (!findings.length) {
+    return {
+      safe: true,
+      risk: "none",
+      message: `Simulation succeeded (${result.mode} mode) with ${result.balanceChanges.length} balance change(s) and no new approvals`,
+      evidence: result,
+    };
+  }
+
+  const risk = highestRisk(findings);
+
+  return {
+    safe: compareRisk(risk, "high") < 0,
+    risk,
+    message: findings.map((finding) => finding.message).join("; "),
+    evidence: result,
+  };
+};
+
+export const simulationCheck: SecurityCheckDefinition = {
+  id: "simulation",
+  description:
+    "Simulates the transaction against the Safe's RPC URL (ideally a local anvil/hardhat fork) and flags reverts, unexpected outflows and new approvals",
+  defaultSeverity: "medium",
+  enabled: true,
+  timeoutMs: 30000,
+  run: checkSimulation,
+};
@@ -0,0 +1,69 @@
+import { SafeInfoResponse } from "@safe-global/api-kit";
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { TransactionCall } from "../utils/multiSend";
+import { SafeConfig } from "../safes/registry";
+import { AddressBook } from "../addressBook/addressBook";
+import { InboundTransfer } from "../addressBook/poisoning";
+
+export type RiskLevel = "none" | "low" | "medium" | "high" | "critical";
+
+export const RISK_LEVELS: RiskLevel[] = [
+  "none",
+  "low",
+  "medium",
+  "high",
+  "critical",
+];
+
+export interface SecurityCheck {
+  safe: boolean;
+  risk: RiskLevel;
+  message: string;
+  // Index of the MultiSend inner call this result applies to
+  callIndex?: number;
+  // Per-call results when the transaction is a MultiSend batch
+  findings?: SecurityCheck[];
+  // Structured data backing the result (e.g. simulation diffs)
+  evidence?: unknown;
+}
+
+// Results keyed by check id; only enabled checks appear
+export type SecurityChecks = Record<string, SecurityCheck>;
+
+export interface CheckContext {
+  tx: SafeMultisigTransactionResponse;
+  chainId: bigint;
+  safeInfo: SafeInfoResponse;
+  // The configured Safe being guarded (RPC URL, human signers, ...)
+  safeConfig: SafeConfig;
+  // Counterparties of this Safe, keyed by lowercase address
+  addressBook: AddressBook;
+  // Zero-value and dust transfers previously sent into the Safe
+  inboundDust: InboundTransfer[];
+  // Calls the Safe executes, with MultiSend batches flattened
+  calls: TransactionCall[];
+  // `calls` plus the batch call itself when the transaction is a batch
+  executedCalls: TransactionCall[];
+  // Whether the agent's signatures are real or only recorded (shadow)
+  signingMode: "live" | "shadow";
+  // Fires when the analysis is abandoned, e.g. its client disconnected
+  signal?: AbortSignal;
+}
+
+export interface SecurityCheckDefinition {
+  id: string;
+  description: string;
+  // Risk reported when the check errors or times out
+  defaultSeverity: RiskLevel;
+  enabled: boolean;
+  timeoutMs: number;
+  run: (context: CheckContext) => Promise<SecurityCheck>;
+}
+
+// Per-check overrides read from the checks config file
+export interface CheckConfig {
+  enabled?: boolean;
+  timeoutMs?: number;
+  // Re-weights every failing result of the check to this risk level
+  severity?: RiskLevel;
+}
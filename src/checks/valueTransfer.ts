@@ -0,0 +1,211 @@
+import {
+  CheckContext,
+  RISK_LEVELS,
+  RiskLevel,
+  SecurityCheck,
+  SecurityCheckDefinition,
+} from "./types";
+import { compareRisk, rollUpCheck, withCallIndex } from "./helpers";
+import { isEstablished } from "../addressBook/addressBook";
+import { RiskThresholds } from "../safes/registry";
+import { Outflow, PriceService } from "../pricing/priceService";
+import { NATIVE } from "../pricing/types";
+
+// Used for native value only when no source prices the native coin
+const ETH_THRESHOLDS: RiskThresholds = { low: 1, medium: 10, high: 50 };
+
+const tier = (value: number, thresholds: RiskThresholds): RiskLevel => {
+  if (value > thresholds.high) return "high";
+  if (value > thresholds.medium) return "medium";
+  if (value > thresholds.low) return "low";
+  return "none";
+};
+
+// Tokens nobody prices are often illiquid or worthless-looking drain bait,
+// so their outflows are never treated as small
+const UNPRICED_TOKEN_RISK: RiskLevel = "medium";
+
+const isUnpricedToken = (outflow: Outflow) =>
+  outflow.usd === undefined && outflow.token !== NATIVE;
+
+const maxRisk = (a: RiskLevel, b: RiskLevel) =>
+  compareRisk(a, b) >= 0 ? a : b;
+
+const formatUsd = (usd: number) =>
+  `$${Math.round(usd).toLocaleString("en-US")}`;
+
+const describeOutflow = (outflow: Outflow) => {
+  const asset =
+    outflow.symbol ?? (outflow.token === NATIVE ? "ETH" : outflow.token);
+  const amount =
+    outflow.units === undefined
+      ? `${outflow.amount} units of`
+      : outflow.units.toLocaleString("en-US");
+
+  return outflow.usd === undefined
+    ? `${amount} ${asset} (unpriced)`
+    : `${amount} ${asset} (${formatUsd(outflow.usd)})`;
+};
+
+// Grades a USD amount by the Safe's absolute and treasury-share limits
+const gradeUsd = (
+  usd: number,
+  { safeConfig }: CheckContext,
+  treasuryUsd: number | undefined
+) => {
+  const { valueLimits } = safeConfig;
+  const percent = treasuryUsd ? (usd / treasuryUsd) * 100 : undefined;
+
+  return {
+    risk: maxRisk(
+      tier(usd, valueLimits.usd),
+      percent === undefined
+        ? "none"
+        : tier(percent, valueLimits.treasuryPercent)
+    ),
+    share:
+      percent === undefined
+        ? undefined
+        : `${percent.toFixed(1)}% of the treasury`,
+  };
+};
+
+const gradeOutflows = (
+  outflows: Outflow[],
+  context: CheckContext,
+  treasuryUsd: number | undefined
+): SecurityCheck => {
+  if (!outflows.length) {
+    return {
+      safe: true,
+      risk: "none",
+      message: "Value transfer within safe limits",
+    };
+  }
+
+  const usd = outflows.reduce(
+    (total, outflow) => total + (outflow.usd ?? 0),
+    0
+  );
+  const grade = gradeUsd(usd, context, treasuryUsd);
+  const summary = [
+    outflows.length > 1 && usd ? `${formatUsd(usd)} total` : undefined,
+    grade.share,
+  ].filter(Boolean);
+  let risk = grade.risk;
+
+  // Offline fallback: unpriced native value keeps the fixed ETH limits
+  for (const outflow of outflows) {
+    if (outflow.usd !== undefined) continue;
+    risk = maxRisk(
+      risk,
+      outflow.token === NATIVE
+        ? tier(outflow.units ?? 0, ETH_THRESHOLDS)
+        : UNPRICED_TOKEN_RISK
+    );
+  }
+
+  return {
+    safe: risk === "none" || risk === "low",
+    risk,
+    message:
+      risk === "none"
+        ? `Value transfer within safe limits (${outflows
+            .map(describeOutflow)
+            .join(", ")})`
+        : `Transfers ${outflows.map(describeOutflow).join(", ")}${
+            summary.length ? ` - ${summary.join(", ")}` : ""
+          }`,
+    evidence: { outflows, treasuryUsd },
+  };
+};
+
+// Payments to a long-standing payee are graded one level lower, unless
+// they include a token whose value is unknown
+const downgradeForPayee = (
+  result: SecurityCheck,
+  outflows: Outflow[],
+  { addressBook }: CheckContext
+): SecurityCheck => {
+  const payees = outflows.map((outflow) =>
+    addressBook.get(outflow.recipient.toLowerCase())
+  );
+  if (
+    result.risk === "none" ||
+    !payees.length ||
+    outflows.some(isUnpricedToken) ||
+    !payees.every((payee) => isEstablished(payee))
+  ) {
+    return result;
+  }
+
+  const risk = RISK_LEVELS[RISK_LEVELS.indexOf(result.risk) - 1];
+  const payee = payees[0]!;
+
+  return {
+    ...result,
+    safe: risk === "none" || risk === "low",
+    risk,
+    message: `${result.message} to established payee ${
+      payee.label ?? payee.address
+    }`,
+  };
+};
+
+/**
+ * Values native and token outflows of every call in USD and grades each
+ * call, plus the batch as a whole so splitting a payment does not help.
+ */
+const checkValueTransfer = async (
+  context: CheckContext
+): Promise<SecurityCheck> => {
+  const prices = PriceService.getInstance();
+  const { calls, safeConfig, tx } = context;
+
+  const outflows = await Promise.all(
+    calls.map((call) => prices.valueOutflows(safeConfig, call, tx.safe))
+  );
+  const treasuryUsd = outflows.some((flows) =>
+    flows.some((outflow) => outflow.usd !== undefined)
+  )
+    ? await prices.getTreasuryUsd(safeConfig)
+    : undefined;
+
+  const results = calls.map((call, i) =>
+    withCallIndex(
+      call,
+      downgradeForPayee(
+        gradeOutflows(outflows[i], context, treasuryUsd),
+        outflows[i],
+        context
+      )
+    )
+  );
+  const result = rollUpCheck(results);
+
+  if (calls.length < 2) return result;
+
+  const total = downgradeForPayee(
+    gradeOutflows(outflows.flat(), context, treasuryUsd),
+    outflows.flat(),
+    context
+  );
+  if (compareRisk(total.risk, result.risk) <= 0) return result;
+
+  return {
+    ...result,
+    safe: total.safe,
+    risk: total.risk,
+    message: `Batch total: ${total.message}`,
+  };
+};
+
+export const valueTransferCheck: SecurityCheckDefinition = {
+  id: "valueTransfer",
+  description:
+    "Values native and ERC-20 outflows in USD against the Safe's absolute and treasury-share limits",
+  defaultSeverity: "medium",
+  enabled: true,
+  timeoutMs: 10000,
+  run: checkValueTransfer,
+};
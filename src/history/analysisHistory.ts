@@ -0,0 +1,163 @@
+import fs from "fs/promises";
+import path from "path";
+import { Logger } from "../utils/logger";
+import { SecurityChecks } from "../checks/types";
+import { Decision, PolicyDecision } from "../policy/types";
+import { SignerBackend } from "../signers/types";
+import { SecurityReport } from "../report/types";
+
+export interface AnalysisRecord {
+  safeTxHash: string;
+  chainId: string;
+  safe: string;
+  nonce: number;
+  to: string;
+  value: string;
+  decision: PolicyDecision;
+  // Signing outcome, e.g. "signed", "would-sign" or "not-signed"
+  action: string;
+  signingMode: "live" | "shadow";
+  // Backend that produced the signature, when one was submitted
+  signerBackend?: SignerBackend;
+  securityChecks: SecurityChecks;
+  summary: string;
+  aiAnalysis: string;
+  // Structured report; absent from records written before reports existed
+  report?: SecurityReport;
+  analyzedAt: string;
+}
+
+export interface AnalysisQuery {
+  safe?: string;
+  decision?: Decision;
+  chainId?: string;
+  action?: string;
+  // Only records that carry a structured report
+  withReport?: boolean;
+  limit?: number;
+}
+
+const ANALYSIS_HISTORY_PATH =
+  process.env.ANALYSIS_HISTORY_PATH ||
+  path.resolve(process.cwd(), "data/analyses.jsonl");
+
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+
+/**
+ * Append-only log of every transaction analysis, one JSON record per line,
+ * kept in memory for querying. A transaction analyzed more than once keeps
+ * every record; lookups by safeTxHash return the latest.
+ */
+export class AnalysisHistoryStore {
+  private static instance: AnalysisHistoryStore;
+  private records: AnalysisRecord[] = [];
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly filePath: string) {}
+
+  public static getInstance(): AnalysisHistoryStore {
+    if (!AnalysisHistoryStore.instance) {
+      AnalysisHistoryStore.instance = new AnalysisHistoryStore(
+        ANALYSIS_HISTORY_PATH
+      );
+    }
+    return AnalysisHistoryStore.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const content = await fs.readFile(this.filePath, "utf8");
+          const lines = content.split("\n").filter((line) => line.trim());
+
+          for (const line of lines) {
+            try {
+              this.records.push(JSON.parse(line));
+            } catch {
+              // A crash mid-append can leave a truncated last line
+              Logger.warn("history", "Skipping malformed analysis record", {
+                path: this.filePath,
+              });
+            }
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+
+        Logger.info("history", "Loaded analysis history", {
+          path: this.filePath,
+          records: this.records.length,
+        });
+      })();
+    }
+    return this.loading;
+  }
+
+  public async record(
+    entry: Omit<AnalysisRecord, "analyzedAt">
+  ): Promise<AnalysisRecord> {
+    await this.load();
+
+    const record: AnalysisRecord = {
+      ...entry,
+      analyzedAt: new Date().toISOString(),
+    };
+    this.records.push(record);
+
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`);
+    });
+    // A failed write must not block the ones queued after it
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+
+    return record;
+  }
+
+  // Newest first
+  public async query({
+    safe,
+    decision,
+    chainId,
+    action,
+    withReport,
+    limit = DEFAULT_QUERY_LIMIT,
+  }: AnalysisQuery = {}): Promise<AnalysisRecord[]> {
+    await this.load();
+
+    const matches: AnalysisRecord[] = [];
+    const max = Math.min(Math.max(limit, 1), MAX_QUERY_LIMIT);
+
+    for (let i = this.records.length - 1; i >= 0; i--) {
+      const record = this.records[i];
+
+      if (safe && record.safe.toLowerCase() !== safe.toLowerCase()) continue;
+      if (decision && record.decision.decision !== decision) continue;
+      if (chainId && record.chainId !== chainId) continue;
+      if (action && record.action !== action) continue;
+      if (withReport && !record.report) continue;
+
+      matches.push(record);
+      if (matches.length >= max) break;
+    }
+
+    return matches;
+  }
+
+  public async get(safeTxHash: string): Promise<AnalysisRecord | undefined> {
+    await this.load();
+
+    for (let i = this.records.length - 1; i >= 0; i--) {
+      if (
+        this.records[i].safeTxHash.toLowerCase() === safeTxHash.toLowerCase()
+      ) {
+        return this.records[i];
+      }
+    }
+    return undefined;
+  }
+}
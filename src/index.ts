@@ -4,13 +4,29 @@ import { P2PClient } from "../sdk/src/p2p";
 import { Message } from "../sdk/src/p2p/types";
 import { processMessage } from "./agent";
 import { Logger } from "./utils/logger";
-import SafeApiKit, { SafeInfoResponse } from "@safe-global/api-kit";
-import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
 import securityService from "./securityService";
-import Safe, {
-  PredictedSafeProps,
-  SafeAccountConfig,
-} from "@safe-global/protocol-kit";
+import { analyzePendingTransactions, SIGNING_MODE } from "./pipeline";
+import {
+  loadWatcherConfig,
+  TransactionWatcher,
+} from "./watcher/transactionWatcher";
+import { AnalysisHistoryStore, AnalysisQuery } from "./history/analysisHistory";
+import { Decision, DECISIONS } from "./policy/types";
+import { DEFAULT_CHAIN_ID, findSafe, getSafes } from "./safes/registry";
+import { assertSignersAllowed } from "./signers/registry";
+import { ReviewQueue, ReviewStatus } from "./reviews/reviewQueue";
+import { requireReviewer } from "./reviews/auth";
+import { ethers } from "ethers";
+import { AddressBookStore, TRUST_LEVELS } from "./addressBook/addressBook";
+import { AddressListService } from "./utils/addressLists";
+import { buildOpenApiDocument } from "./report/openapi";
+import { SECURITY_REPORT_SCHEMA } from "./report/schema";
+import { REPORT_SCHEMA_VERSION } from "./report/types";
+import {
+  approveReview,
+  rejectReview,
+  ReviewError,
+} from "./reviews/reviewActions";
 
 // Load environment variables
 dotenv();
@@ -22,135 +38,6 @@ let client: P2PClient;
 const app = express();
 app.use(express.json());
 
-const SIGNER_ADDRESS = process.env.SIGNER_ADDRESS;
-const SAFE_ADDRESS = process.env.SAFE_ADDRESS;
-const HUMAN_SIGNER_1_ADDRESS = process.env.HUMAN_SIGNER_1_ADDRESS;
-const RPC_URL = process.env.RPC_URL;
-const SIGNER_PRIVATE_KEY = process.env.SIGNER_PRIVATE_KEY;
-
-async function initializeSafeAccount() {
-  if (
-    !SIGNER_PRIVATE_KEY ||
-    !RPC_URL ||
-    !SAFE_ADDRESS ||
-    !SIGNER_ADDRESS ||
-    !HUMAN_SIGNER_1_ADDRESS
-  ) {
-    throw new Error("Missing environment variables in .env file");
-  }
-
-  const safeAccountConfig: SafeAccountConfig = {
-    owners: [SIGNER_ADDRESS, HUMAN_SIGNER_1_ADDRESS],
-    threshold: 2,
-  };
-
-  const predictedSafe: PredictedSafeProps = {
-    safeAccountConfig,
-  };
-
-  const safe = await Safe.default.init({
-    provider: RPC_URL,
-    signer: SIGNER_PRIVATE_KEY,
-    predictedSafe,
-  });
-
-  return safe;
-}
-
-const runSecurityChecks = async (
-  tx: SafeMultisigTransactionResponse,
-  safeInfo: SafeInfoResponse
-) => {
-  const { safe, securityChecks, summary, aiAnalysis } =
-    await securityService.analyzeTransaction(tx);
-
-  if (!safe) {
-    Logger.info("security", "Transaction is not safe", {
-      txHash: tx.transactionHash,
-    });
-  }
-
-  return {
-    safe,
-    securityChecks,
-    summary,
-    aiAnalysis,
-  };
-};
-
-const analyzePendingTransactions = async ({
-  chainId,
-  safeAddress,
-}: {
-  chainId: bigint;
-  safeAddress: string;
-}) => {
-  const apiKit = new SafeApiKit.default({
-    chainId,
-  });
-
-  const safeAcc = await initializeSafeAccount();
-
-  const transactions = await apiKit.getPendingTransactions(safeAddress);
-
-  console.log("transactions", transactions);
-
-  const notExecutedTransactions = transactions.results.filter(
-    (tx: SafeMultisigTransactionResponse) => tx.executionDate === null
-  );
-
-  console.log("notExecutedTransactions", notExecutedTransactions);
-
-  const transactionsResults = [];
-
-  if (notExecutedTransactions.length) {
-    const safeInfo = await apiKit.getSafeInfo(notExecutedTransactions[0].safe);
-
-    for (const tx of notExecutedTransactions) {
-      const { safe, securityChecks, summary, aiAnalysis } =
-        await runSecurityChecks(tx, safeInfo);
-
-      transactionsResults.push({
-        safe,
-        securityChecks,
-        summary,
-        aiAnalysis,
-      });
-
-      if (!safe) {
-        Logger.info("security", "Transaction is not safe", {
-          txHash: tx.transactionHash,
-        });
-
-        return {
-          safe: false,
-          securityChecks,
-          summary,
-          aiAnalysis,
-        };
-      }
-
-      try {
-        const signature = await safeAcc.signHash(tx.safeTxHash);
-
-        await apiKit.confirmTransaction(tx.safeTxHash, signature.data);
-      } catch (error) {
-        Logger.error("security", "Failed to sign transaction", {
-          txHash: tx.transactionHash,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
-  }
-
-  return {
-    safe: true,
-    transactionsResults,
-    lastTransaction:
-      notExecutedTransactions[notExecutedTransactions.length - 1],
-  };
-};
-
 async function handleMessage(message: Message) {
   try {
     Logger.info("agent", "Got message", {
@@ -170,12 +57,11 @@ async function handleMessage(message: Message) {
   }
 }
 
+const MARKET_SENTIMENT_AGENT_ID = "0x2e2390c874a089bEbFdF47BCaA39067Ef5dFF967";
+
 app.post("/api/market-sentiment", (req: Request, res: Response) => {
   (async () => {
     try {
-      const MARKET_SENTIMENT_AGENT_ID =
-        "0x2e2390c874a089bEbFdF47BCaA39067Ef5dFF967";
-
       const { message } = req.body;
 
       Logger.info("http", "Sending message to market sentiment agent", {
@@ -241,43 +127,467 @@ app.post("/api/market-sentiment", (req: Request, res: Response) => {
   })();
 });
 
+const listChecks = () =>
+  securityService.getCheckRegistry().map((check) => ({
+    id: check.id,
+    description: check.description,
+    defaultSeverity: check.defaultSeverity,
+    enabled: check.enabled,
+    timeoutMs: check.timeoutMs,
+  }));
+
+app.get("/api/checks", (req: Request, res: Response) => {
+  res.json(listChecks());
+});
+
+// Reads the history filters shared by the analyses and reports routes;
+// answers 400 and returns null when they are invalid
+const readAnalysisQuery = (
+  req: Request,
+  res: Response
+): AnalysisQuery | null => {
+  const { safe, decision, chainId, action, limit } = req.query;
+
+  if (decision && !DECISIONS.includes(decision as Decision)) {
+    res.status(400).json({
+      error: { message: `decision must be one of ${DECISIONS.join(", ")}` },
+    });
+    return null;
+  }
+
+  return {
+    safe: safe ? String(safe) : undefined,
+    decision: decision ? (decision as Decision) : undefined,
+    chainId: chainId ? String(chainId) : undefined,
+    action: action ? String(action) : undefined,
+    limit: limit ? parseInt(String(limit)) || undefined : undefined,
+  };
+};
+
+app.get("/api/analyses", (req: Request, res: Response) => {
+  (async () => {
+    try {
+      const query = readAnalysisQuery(req, res);
+      if (!query) return;
+
+      const analyses = await AnalysisHistoryStore.getInstance().query(query);
+
+      res.json(analyses);
+    } catch (error) {
+      Logger.error("http", "Failed to query analyses", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: { message: "Failed to query analyses" },
+      });
+    }
+  })();
+});
+
+app.get("/api/analyses/:safeTxHash", (req: Request, res: Response) => {
+  (async () => {
+    try {
+      const analysis = await AnalysisHistoryStore.getInstance().get(
+        req.params.safeTxHash
+      );
+
+      if (!analysis) {
+        res.status(404).json({ error: { message: "Analysis not found" } });
+        return;
+      }
+
+      res.json(analysis);
+    } catch (error) {
+      Logger.error("http", "Failed to load analysis", {
+        safeTxHash: req.params.safeTxHash,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: { message: "Failed to load analysis" },
+      });
+    }
+  })();
+});
+
+const REVIEW_STATUSES: ReviewStatus[] = ["pending", "approved", "rejected"];
+
+app.get("/api/reviews", requireReviewer, (req: Request, res: Response) => {
+  (async () => {
+    try {
+      const status = (req.query.status ?? "pending") as ReviewStatus;
+
+      if (!REVIEW_STATUSES.includes(status)) {
+        res.status(400).json({
+          error: {
+            message: `status must be one of ${REVIEW_STATUSES.join(", ")}`,
+          },
+        });
+        return;
+      }
+
+      res.json(await ReviewQueue.getInstance().list(status));
+    } catch (error) {
+      Logger.error("http", "Failed to list reviews", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: { message: "Failed to list reviews" },
+      });
+    }
+  })();
+});
+
+app.get(
+  "/api/reviews/:safeTxHash",
+  requireReviewer,
+  (req: Request, res: Response) => {
+    (async () => {
+      try {
+        const { safeTxHash } = req.params;
+        const queue = ReviewQueue.getInstance();
+        const review = await queue.get(safeTxHash);
+
+        if (!review) {
+          res.status(404).json({ error: { message: "Review not found" } });
+          return;
+        }
+
+        res.json({
+          review,
+          analysis: await AnalysisHistoryStore.getInstance().get(safeTxHash),
+          audit: await queue.getAuditTrail(safeTxHash),
+        });
+      } catch (error) {
+        Logger.error("http", "Failed to load review", {
+          safeTxHash: req.params.safeTxHash,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(500).json({
+          error: { message: "Failed to load review" },
+        });
+      }
+    })();
+  }
+);
+
+app.post(
+  "/api/reviews/:safeTxHash/:verdict(approve|reject)",
+  requireReviewer,
+  (req: Request, res: Response) => {
+    (async () => {
+      const { safeTxHash, verdict } = req.params;
+
+      try {
+        const reason = req.body?.reason;
+
+        if (typeof reason !== "string" || !reason.trim()) {
+          res.status(400).json({
+            error: { message: "A reason is required" },
+          });
+          return;
+        }
+
+        const resolve = verdict === "approve" ? approveReview : rejectReview;
+
+        res.json(
+          await resolve(safeTxHash, {
+            reviewer: res.locals.reviewer,
+            reason: reason.trim(),
+          })
+        );
+      } catch (error) {
+        if (error instanceof ReviewError) {
+          res.status(error.status).json({ error: { message: error.message } });
+          return;
+        }
+
+        Logger.error("http", "Failed to resolve review", {
+          safeTxHash,
+          verdict,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(500).json({
+          error: { message: "Failed to resolve review" },
+        });
+      }
+    })();
+  }
+);
+
+const ADDRESS_BOOK_ROUTE = "/api/safes/:chainId/:safeAddress/address-book";
+
+// Reads the Safe an analysis request names in its body. Answers 400 when
+// the address or chain id is malformed and 404 when the Safe is not
+// configured, returning null in both cases.
+const readAnalysisTarget = (
+  req: Request,
+  res: Response
+): { safeAddress: string; chainId: bigint } | null => {
+  const { safeAddress, chainId = DEFAULT_CHAIN_ID } = req.body ?? {};
+
+  if (
+    typeof safeAddress !== "string" ||
+    !ethers.isAddress(safeAddress) ||
+    !/^\d+$/.test(String(chainId))
+  ) {
+    res.status(400).json({
+      error: {
+        message: "safeAddress must be an address and chainId an integer",
+      },
+    });
+    return null;
+  }
+
+  // Only Safes listed in the Safes config are analyzed and signed for
+  if (!findSafe(BigInt(chainId), safeAddress)) {
+    res.status(404).json({
+      error: { message: "Safe is not configured for this agent" },
+    });
+    return null;
+  }
+
+  return { safeAddress, chainId: BigInt(chainId) };
+};
+
+// Resolves the configured Safe named in the route, or answers 404
+const findRouteSafe = (req: Request, res: Response) => {
+  const { chainId, safeAddress } = req.params;
+  const safeConfig =
+    /^\d+$/.test(chainId) && ethers.isAddress(safeAddress)
+      ? findSafe(BigInt(chainId), safeAddress)
+      : undefined;
+
+  if (!safeConfig) {
+    res.status(404).json({
+      error: { message: "Safe is not configured for this agent" },
+    });
+  }
+  return safeConfig;
+};
+
+app.get(ADDRESS_BOOK_ROUTE, requireReviewer, (req: Request, res: Response) => {
+  (async () => {
+    try {
+      const safeConfig = findRouteSafe(req, res);
+      if (!safeConfig) return;
+
+      res.json(await AddressBookStore.getInstance().list(safeConfig));
+    } catch (error) {
+      Logger.error("http", "Failed to list address book", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: { message: "Failed to list address book" },
+      });
+    }
+  })();
+});
+
+app.get(
+  `${ADDRESS_BOOK_ROUTE}/:address`,
+  requireReviewer,
+  (req: Request, res: Response) => {
+    (async () => {
+      try {
+        const safeConfig = findRouteSafe(req, res);
+        if (!safeConfig) return;
+
+        const entry = await AddressBookStore.getInstance().get(
+          safeConfig,
+          req.params.address
+        );
+
+        if (!entry) {
+          res.status(404).json({ error: { message: "Address not found" } });
+          return;
+        }
+
+        res.json(entry);
+      } catch (error) {
+        Logger.error("http", "Failed to load address book entry", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(500).json({
+          error: { message: "Failed to load address book entry" },
+        });
+      }
+    })();
+  }
+);
+
+app.put(
+  `${ADDRESS_BOOK_ROUTE}/:address`,
+  requireReviewer,
+  (req: Request, res: Response) => {
+    (async () => {
+      try {
+        const safeConfig = findRouteSafe(req, res);
+        if (!safeConfig) return;
+
+        const { address } = req.params;
+        const { label, trust } = req.body ?? {};
+
+        if (!ethers.isAddress(address)) {
+          res.status(400).json({ error: { message: "Invalid address" } });
+          return;
+        }
+        if (!TRUST_LEVELS.includes(trust)) {
+          res.status(400).json({
+            error: {
+              message: `trust must be one of ${TRUST_LEVELS.join(", ")}`,
+            },
+          });
+          return;
+        }
+        if (label !== undefined && typeof label !== "string") {
+          res
+            .status(400)
+            .json({ error: { message: "label must be a string" } });
+          return;
+        }
+
+        const entry = await AddressBookStore.getInstance().upsert(
+          safeConfig,
+          address,
+          { label, trust },
+          res.locals.reviewer
+        );
+
+        Logger.info("address-book", "Address book entry saved", {
+          safe: safeConfig.name,
+          address: entry.address,
+          trust,
+          reviewer: res.locals.reviewer,
+        });
+
+        res.json(entry);
+      } catch (error) {
+        Logger.error("http", "Failed to save address book entry", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(500).json({
+          error: { message: "Failed to save address book entry" },
+        });
+      }
+    })();
+  }
+);
+
+app.delete(
+  `${ADDRESS_BOOK_ROUTE}/:address`,
+  requireReviewer,
+  (req: Request, res: Response) => {
+    (async () => {
+      try {
+        const safeConfig = findRouteSafe(req, res);
+        if (!safeConfig) return;
+
+        const removed = await AddressBookStore.getInstance().remove(
+          safeConfig,
+          req.params.address
+        );
+
+        if (!removed) {
+          res.status(404).json({ error: { message: "Address not found" } });
+          return;
+        }
+
+        Logger.info("address-book", "Address book entry removed", {
+          safe: safeConfig.name,
+          address: req.params.address,
+          reviewer: res.locals.reviewer,
+        });
+
+        res.status(204).end();
+      } catch (error) {
+        Logger.error("http", "Failed to remove address book entry", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(500).json({
+          error: { message: "Failed to remove address book entry" },
+        });
+      }
+    })();
+  }
+);
+
+// Comment lines keep proxies and clients from timing out an idle stream
+const SSE_HEARTBEAT_MS = 15000;
+
+// Rejects once the signal aborts, for racing work that cannot be cancelled
+const whenAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
+  });
+
+/**
+ * Server-sent events, in order: `transaction` per pending transaction,
+ * `check` per completed check, `decision`, `token` per chunk of the LLM
+ * analysis and `signing`, then `market-sentiment`, `result` and `done`.
+ * Failures arrive as an `error` event. Closing the connection cancels the
+ * remaining work.
+ */
 app.post("/api/transaction-analysis", (req: Request, res: Response) => {
   (async () => {
+    const controller = new AbortController();
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    const send = (event: string, data: unknown) => {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
     try {
-      const { safeAddress, chainId = 11155111n } = req.body;
+      const target = readAnalysisTarget(req, res);
+      if (!target) return;
+      const { safeAddress, chainId } = target;
 
       Logger.info("http", "Analyzing pending transactions", {
         safeAddress,
       });
 
-      // Set up response headers for streaming
       res.setHeader("Content-Type", "text/event-stream");
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+
+      res.on("close", () => {
+        if (!res.writableEnded)
+          controller.abort(new Error("Client disconnected"));
+      });
+      heartbeat = setInterval(() => {
+        if (!res.writableEnded) res.write(": heartbeat\n\n");
+      }, SSE_HEARTBEAT_MS);
 
       const response = await analyzePendingTransactions({
         safeAddress,
         chainId,
+        progress: {
+          onEvent: (event) => send(event.type, event),
+          signal: controller.signal,
+        },
       });
 
-      const MARKET_SENTIMENT_AGENT_ID =
-        "0x2e2390c874a089bEbFdF47BCaA39067Ef5dFF967";
-
-      // Create a Promise that will resolve when we receive a response
-      const responsePromise = new Promise<string>((resolve) => {
-        // Set up a one-time message handler for this request
-        const messageHandler = (message: Message) => {
-          if (message.fromAgentId === MARKET_SENTIMENT_AGENT_ID) {
-            resolve(message.content);
-            // Remove this handler after receiving the response
-            client.onMessage((msg) => {}); // Reset to empty handler
-          }
-        };
-
-        client.onMessage(messageHandler);
-      });
+      let marketSentimentResponse: string | undefined;
+      if (response.lastTransaction) {
+        // Create a Promise that will resolve when we receive a response
+        const responsePromise = new Promise<string>((resolve) => {
+          // Set up a one-time message handler for this request
+          const messageHandler = (message: Message) => {
+            if (message.fromAgentId === MARKET_SENTIMENT_AGENT_ID) {
+              resolve(message.content);
+              // Remove this handler after receiving the response
+              client.onMessage((msg) => {}); // Reset to empty handler
+            }
+          };
+
+          client.onMessage(messageHandler);
+        });
 
-      const message = `Analyze market conditions for a Safe transaction:
+        const message = `Analyze market conditions for a Safe transaction:
       Value: ${response.lastTransaction.value} Wei
       To: ${response.lastTransaction.to}
       Data: ${response.lastTransaction.data}
@@ -290,42 +600,147 @@ app.post("/api/transaction-analysis", (req: Request, res: Response) => {
       2. Brief market analysis
       3. Risk assessment for transaction timing`;
 
-      // Send the message
-      await client.sendMessage(MARKET_SENTIMENT_AGENT_ID, message);
+        // Send the message
+        await client.sendMessage(MARKET_SENTIMENT_AGENT_ID, message);
 
-      // Wait for the response
-      const marketSentimentResponse = await responsePromise;
+        // Wait for the response, unless the client leaves first
+        marketSentimentResponse = await Promise.race([
+          responsePromise,
+          whenAborted(controller.signal),
+        ]);
+        send("market-sentiment", { response: marketSentimentResponse });
 
-      Logger.info("http", "Received response from market sentiment agent", {
-        response,
-      });
+        Logger.info("http", "Received response from market sentiment agent", {
+          response: marketSentimentResponse,
+        });
+      }
 
-      // Send the response as a single message
-      const data = {
+      send("result", {
         model: process.env.AGENT_NAME || "default-agent",
         created_at: new Date().toISOString(),
-        response: response,
+        response,
         marketSentimentResponse,
-        done: false,
-      };
-      res.write(`data: ${JSON.stringify(data)}\n\n`);
+      });
+      send("done", {});
+    } catch (error) {
+      if (controller.signal.aborted) {
+        Logger.info("http", "Client disconnected, analysis cancelled", {
+          safeAddress: req.body?.safeAddress,
+        });
+      } else {
+        Logger.error("http", "Failed to analyze transactions", {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+        if (!res.headersSent) {
+          res.status(500).json({
+            error: { message: "Failed to analyze transactions" },
+          });
+        } else {
+          // Once the stream has started the failure goes into it
+          send("error", {
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) res.end();
+    }
+  })();
+});
 
-      // Send final chunk to indicate completion
-      const finalData = {
-        model: process.env.AGENT_NAME || "default-agent",
-        created_at: new Date().toISOString(),
-        response: "",
-        done: true,
-      };
-      res.write(`data: ${JSON.stringify(finalData)}\n\n`);
-      res.end();
+// Versioned API: every response is typed by the OpenAPI document below
+
+app.get("/api/v1/openapi.json", (req: Request, res: Response) => {
+  res.json(buildOpenApiDocument());
+});
+
+app.get("/api/v1/schemas/security-report", (req: Request, res: Response) => {
+  res.json(SECURITY_REPORT_SCHEMA);
+});
+
+app.get("/api/v1/checks", (req: Request, res: Response) => {
+  res.json(listChecks());
+});
+
+app.get("/api/v1/reports", (req: Request, res: Response) => {
+  (async () => {
+    try {
+      const query = readAnalysisQuery(req, res);
+      if (!query) return;
+
+      const analyses = await AnalysisHistoryStore.getInstance().query({
+        ...query,
+        withReport: true,
+      });
+
+      res.json(analyses.map((analysis) => analysis.report));
     } catch (error) {
-      Logger.error("http", "Failed to handle chat message", {
+      Logger.error("http", "Failed to query reports", {
         error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
       });
       res.status(500).json({
-        error: { message: "Failed to process message" },
+        error: { message: "Failed to query reports" },
+      });
+    }
+  })();
+});
+
+app.get("/api/v1/reports/:safeTxHash", (req: Request, res: Response) => {
+  (async () => {
+    try {
+      const analysis = await AnalysisHistoryStore.getInstance().get(
+        req.params.safeTxHash
+      );
+
+      if (!analysis?.report) {
+        res.status(404).json({ error: { message: "Report not found" } });
+        return;
+      }
+
+      res.json(analysis.report);
+    } catch (error) {
+      Logger.error("http", "Failed to load report", {
+        safeTxHash: req.params.safeTxHash,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: { message: "Failed to load report" },
+      });
+    }
+  })();
+});
+
+app.post("/api/v1/transaction-analysis", (req: Request, res: Response) => {
+  (async () => {
+    try {
+      const target = readAnalysisTarget(req, res);
+      if (!target) return;
+
+      const { transactionsResults, skipped } =
+        await analyzePendingTransactions(target);
+
+      // Analysed transactions without a valid report are listed, so a
+      // client never mistakes a partial list for a complete one
+      res.json({
+        schemaVersion: REPORT_SCHEMA_VERSION,
+        reports: transactionsResults.flatMap((result) => result.report ?? []),
+        failures: transactionsResults
+          .filter((result) => !result.report)
+          .map(({ safeTxHash, nonce, reportError }) => ({
+            safeTxHash,
+            nonce,
+            error: reportError ?? "Report could not be built",
+          })),
+        skipped,
+      });
+    } catch (error) {
+      Logger.error("http", "Failed to analyze transactions", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: { message: "Failed to analyze transactions" },
       });
     }
   })();
@@ -336,6 +751,9 @@ async function main() {
     // Initialize logger
     await Logger.init("agent", { useStdout: true });
 
+    // Refuse to run with a plain-text signer key in production
+    assertSignersAllowed(getSafes().map((safe) => safe.signer));
+
     const p2pAddress = `localhost:${process.env.GRPC_PORT || "50051"}`;
     const p2pPort = parseInt(process.env.P2P_PORT || "8000");
     const httpPort = parseInt(process.env.HTTP_PORT || "3000");
@@ -364,13 +782,33 @@ async function main() {
 
     Logger.info("agent", "Agent started", {
       agentId,
+      signingMode: SIGNING_MODE,
       p2pAddress,
       httpPort,
     });
 
+    // Keep threat feeds fresh; checks fall back to the disk snapshot
+    const addressLists = AddressListService.getInstance();
+    addressLists.start().catch((error) => {
+      Logger.error("address-lists", "Failed to start threat feeds", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    // Start background watcher for configured Safes
+    const watcherConfig = loadWatcherConfig();
+    let watcher: TransactionWatcher | undefined;
+
+    if (watcherConfig.enabled) {
+      watcher = new TransactionWatcher(watcherConfig);
+      await watcher.start();
+    }
+
     // Handle shutdown
     process.on("SIGINT", async () => {
       Logger.info("agent", "Shutting down");
+      watcher?.stop();
+      addressLists.stop();
       await client.disconnect();
       process.exit(0);
     });
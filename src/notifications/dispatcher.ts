@@ -0,0 +1,262 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { Logger } from "../utils/logger";
+import { RISK_LEVELS } from "../checks/types";
+import { compareRisk } from "../checks/helpers";
+import { DECISIONS } from "../policy/types";
+import { discordMessage, slackMessage, telegramMessage } from "./formatters";
+import { SinkConfig, VerdictPayload } from "./types";
+
+const NOTIFICATIONS_CONFIG_PATH =
+  process.env.NOTIFICATIONS_CONFIG_PATH ||
+  path.resolve(process.cwd(), "config/notifications.json");
+
+const DEFAULT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+// Bound on remembered deliveries used for deduplication
+const MAX_DEDUP_ENTRIES = 10000;
+
+const validateSink = (raw: any, index: number): SinkConfig => {
+  const minSeverity = raw?.minSeverity ?? "none";
+  if (!RISK_LEVELS.includes(minSeverity)) {
+    throw new Error(`sinks[${index}]: unknown minSeverity ${minSeverity}`);
+  }
+  if (
+    raw.decisions !== undefined &&
+    (!Array.isArray(raw.decisions) ||
+      !raw.decisions.every((decision: any) => DECISIONS.includes(decision)))
+  ) {
+    throw new Error(`sinks[${index}]: decisions must be a list of decisions`);
+  }
+
+  const base = {
+    name: raw.name ?? `${raw.type}-${index}`,
+    minSeverity,
+    decisions: raw.decisions,
+    retries: raw.retries ?? DEFAULT_RETRIES,
+  };
+
+  switch (raw.type) {
+    case "webhook":
+      if (typeof raw.url !== "string") {
+        throw new Error(`sinks[${index}]: webhook requires a url`);
+      }
+      return {
+        ...base,
+        type: "webhook",
+        url: raw.url,
+        secretEnv: raw.secretEnv,
+      };
+    case "slack":
+    case "discord":
+      if (typeof raw.urlEnv !== "string") {
+        throw new Error(`sinks[${index}]: ${raw.type} requires urlEnv`);
+      }
+      return { ...base, type: raw.type, urlEnv: raw.urlEnv };
+    case "telegram":
+      if (typeof raw.botTokenEnv !== "string" || !raw.chatId) {
+        throw new Error(
+          `sinks[${index}]: telegram requires botTokenEnv and chatId`
+        );
+      }
+      return {
+        ...base,
+        type: "telegram",
+        botTokenEnv: raw.botTokenEnv,
+        chatId: String(raw.chatId),
+      };
+    default:
+      throw new Error(`sinks[${index}]: unknown sink type ${raw?.type}`);
+  }
+};
+
+export const loadNotificationSinks = (
+  configPath = NOTIFICATIONS_CONFIG_PATH
+): SinkConfig[] => {
+  let entries: unknown[] = [];
+
+  try {
+    entries = JSON.parse(fs.readFileSync(configPath, "utf8")).sinks ?? [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      Logger.error("notifications", "Failed to read notifications config", {
+        path: configPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return entries.flatMap((entry, index) => {
+    try {
+      return [validateSink(entry, index)];
+    } catch (error) {
+      Logger.error("notifications", "Ignoring invalid sink", {
+        path: configPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  });
+};
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+// Body is signed together with a timestamp so receivers can reject replays:
+// HMAC-SHA256(secret, `${timestamp}.${body}`)
+const signatureHeaders = (secret: string, body: string) => {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return {
+    "X-Safe-Agent-Timestamp": timestamp,
+    "X-Safe-Agent-Signature": `sha256=${signature}`,
+  };
+};
+
+const deliver = async (sink: SinkConfig, payload: VerdictPayload) => {
+  const options = {
+    timeout: REQUEST_TIMEOUT_MS,
+    headers: { "Content-Type": "application/json" },
+  };
+
+  switch (sink.type) {
+    case "webhook": {
+      const body = JSON.stringify(payload);
+      const headers = sink.secretEnv
+        ? signatureHeaders(requireEnv(sink.secretEnv), body)
+        : {};
+
+      await axios.post(sink.url, body, {
+        ...options,
+        headers: { ...options.headers, ...headers },
+      });
+      return;
+    }
+    case "slack":
+      await axios.post(requireEnv(sink.urlEnv), slackMessage(payload), options);
+      return;
+    case "discord":
+      await axios.post(
+        requireEnv(sink.urlEnv),
+        discordMessage(payload),
+        options
+      );
+      return;
+    case "telegram":
+      await axios.post(
+        `https://api.telegram.org/bot${requireEnv(sink.botTokenEnv)}/sendMessage`,
+        telegramMessage(payload, sink.chatId),
+        options
+      );
+      return;
+  }
+};
+
+// Client errors other than rate limiting will not succeed on retry
+const isRetryable = (error: unknown) => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends transaction verdicts to the configured sinks. Delivery happens in
+ * the background and never delays signing; each sink receives a given
+ * verdict for a safeTxHash at most once.
+ */
+export class NotificationDispatcher {
+  private static instance: NotificationDispatcher;
+  private sinks: SinkConfig[] | null = null;
+  // `${sink}:${safeTxHash}` -> `${decision}:${action}` last delivered
+  private delivered = new Map<string, string>();
+
+  private constructor() {}
+
+  public static getInstance(): NotificationDispatcher {
+    if (!NotificationDispatcher.instance) {
+      NotificationDispatcher.instance = new NotificationDispatcher();
+    }
+    return NotificationDispatcher.instance;
+  }
+
+  private getSinks(): SinkConfig[] {
+    if (!this.sinks) this.sinks = loadNotificationSinks();
+    return this.sinks;
+  }
+
+  public notify(payload: VerdictPayload): void {
+    const verdict = `${payload.decision.decision}:${payload.action}`;
+
+    for (const sink of this.getSinks()) {
+      if (compareRisk(payload.severity, sink.minSeverity) < 0) continue;
+      if (
+        sink.decisions &&
+        !sink.decisions.includes(payload.decision.decision)
+      ) {
+        continue;
+      }
+
+      // The same verdict is not sent twice, but a changed one is
+      const key = `${sink.name}:${payload.safeTxHash}`;
+      if (this.delivered.get(key) === verdict) continue;
+      this.remember(key, verdict);
+
+      this.send(sink, payload).catch((error) => {
+        // Let a later analysis of the transaction try again
+        this.delivered.delete(key);
+        Logger.error("notifications", "Failed to deliver notification", {
+          sink: sink.name,
+          safeTxHash: payload.safeTxHash,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+
+  private remember(key: string, verdict: string) {
+    this.delivered.delete(key);
+    this.delivered.set(key, verdict);
+
+    if (this.delivered.size > MAX_DEDUP_ENTRIES) {
+      this.delivered.delete(this.delivered.keys().next().value!);
+    }
+  }
+
+  private async send(sink: SinkConfig, payload: VerdictPayload) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await deliver(sink, payload);
+
+        Logger.info("notifications", "Notification delivered", {
+          sink: sink.name,
+          safeTxHash: payload.safeTxHash,
+          attempts: attempt + 1,
+        });
+        return;
+      } catch (error) {
+        if (attempt >= sink.retries || !isRetryable(error)) throw error;
+
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        Logger.warn("notifications", "Notification failed, retrying", {
+          sink: sink.name,
+          safeTxHash: payload.safeTxHash,
+          delayMs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await sleep(delayMs);
+      }
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { ethers } from "ethers";
+import { VerdictPayload } from "./types";
+
+const DECISION_TITLES = {
+  allow: "approved by the agent",
+  deny: "denied by the agent",
+  "needs-human": "needs human review",
+};
+
+const SEVERITY_EMOJI = {
+  none: "✅",
+  low: "💚",
+  medium: "💛",
+  high: "🔴",
+  critical: "⛔",
+};
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// Plain-text rendering shared by the chat sinks
+export const formatVerdict = (payload: VerdictPayload, maxLength: number) => {
+  const header = [
+    `${SEVERITY_EMOJI[payload.severity]} Safe transaction ${
+      DECISION_TITLES[payload.decision.decision]
+    } (${payload.severity} risk)`,
+    `Safe: ${payload.safe} (chain ${payload.chainId}, nonce ${payload.nonce})`,
+    `safeTxHash: ${payload.safeTxHash}`,
+    `To: ${payload.to} - Value: ${ethers.formatEther(payload.value)} ETH`,
+    `Decision: ${payload.decision.decision} (rule ${payload.decision.ruleId}), action: ${payload.action}`,
+  ].join("\n");
+
+  const body = `${payload.summary}\n\nAI analysis:\n${payload.aiAnalysis}`;
+
+  return truncate(`${header}\n\n${body}`, maxLength);
+};
+
+// Message length limits of each service
+export const slackMessage = (payload: VerdictPayload) => ({
+  text: formatVerdict(payload, 3000),
+});
+
+export const discordMessage = (payload: VerdictPayload) => ({
+  content: formatVerdict(payload, 2000),
+});
+
+export const telegramMessage = (payload: VerdictPayload, chatId: string) => ({
+  chat_id: chatId,
+  text: formatVerdict(payload, 4096),
+  disable_web_page_preview: true,
+});
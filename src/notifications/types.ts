@@ -0,0 +1,45 @@
+import { RiskLevel } from "../checks/types";
+import { Decision, PolicyDecision } from "../policy/types";
+
+interface BaseSinkConfig {
+  name: string;
+  // Only verdicts whose highest check risk reaches this level are sent
+  minSeverity: RiskLevel;
+  // Only verdicts with one of these decisions are sent; all when omitted
+  decisions?: Decision[];
+  // Extra attempts after a failed delivery, with exponential backoff
+  retries: number;
+}
+
+export type SinkConfig = BaseSinkConfig &
+  (
+    | {
+        type: "webhook";
+        url: string;
+        // Environment variable holding the HMAC secret
+        secretEnv?: string;
+      }
+    // Incoming-webhook URLs are secrets, so they are read from the environment
+    | { type: "slack"; urlEnv: string }
+    | { type: "discord"; urlEnv: string }
+    | { type: "telegram"; botTokenEnv: string; chatId: string }
+  );
+
+export interface VerdictPayload {
+  event: "transaction.verdict";
+  safeTxHash: string;
+  chainId: number;
+  safe: string;
+  nonce: number;
+  to: string;
+  value: string;
+  decision: PolicyDecision;
+  action: string;
+  signingMode: "live" | "shadow";
+  // Highest risk across all checks
+  severity: RiskLevel;
+  checks: Record<string, { safe: boolean; risk: RiskLevel; message: string }>;
+  summary: string;
+  aiAnalysis: string;
+  createdAt: string;
+}
@@ -0,0 +1,480 @@
+import SafeApiKit, { SafeInfoResponse } from "@safe-global/api-kit";
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import securityService from "./securityService";
+import { AnalysisHistoryStore } from "./history/analysisHistory";
+import { ReviewQueue } from "./reviews/reviewQueue";
+import { NotificationDispatcher } from "./notifications/dispatcher";
+import { highestRisk } from "./checks/helpers";
+import { AddressBook, AddressBookStore } from "./addressBook/addressBook";
+import { InboundTransfer } from "./addressBook/poisoning";
+import { OutflowLedger } from "./velocity/outflowLedger";
+import { MAX_WINDOW_MS } from "./velocity/limits";
+import { collectPages } from "./utils/txServicePages";
+import { findSafe, SafeConfig, safeKey } from "./safes/registry";
+import { createSigner, signSafeTxHash } from "./signers/registry";
+import { Signer } from "./signers/types";
+import { Logger } from "./utils/logger";
+import { SECURITY_ANALYSIS_MODEL } from "./agent";
+import { buildSecurityReport } from "./report/buildReport";
+import { SecurityReport } from "./report/types";
+import { AnalysisProgress } from "./analysisEvents";
+
+// In shadow mode the full analysis runs and its decision is recorded, but
+// nothing is signed or submitted to the Safe Transaction Service
+export const SIGNING_MODE: "live" | "shadow" =
+  process.env.SIGNING_MODE === "shadow" ? "shadow" : "live";
+
+export type SigningAction =
+  | "signed"
+  | "would-sign"
+  | "sign-failed"
+  | "not-signed"
+  | "already-signed"
+  // Allowed by the policy, but a human rejected it or has yet to decide
+  | "held-by-review";
+
+const signers = new Map<string, Signer>();
+
+// One signer per Safe, created on first use; none in shadow mode
+export const getSafeSigner = (safeConfig: SafeConfig): Signer | null => {
+  if (SIGNING_MODE !== "live") return null;
+
+  const key = safeKey(safeConfig);
+  if (!signers.has(key)) signers.set(key, createSigner(safeConfig.signer));
+  return signers.get(key)!;
+};
+
+const runSecurityChecks = async (
+  tx: SafeMultisigTransactionResponse,
+  safeInfo: SafeInfoResponse,
+  safeConfig: SafeConfig,
+  history: { addressBook: AddressBook; inboundDust: InboundTransfer[] },
+  progress?: AnalysisProgress
+) => {
+  const { decision, securityChecks, summary, aiAnalysis } =
+    await securityService.analyzeTransaction(
+      tx,
+      {
+        safeInfo,
+        safeConfig,
+        ...history,
+        signingMode: SIGNING_MODE,
+      },
+      progress
+    );
+
+  if (decision.decision !== "allow") {
+    Logger.info("security", "Transaction is not safe", {
+      txHash: tx.transactionHash,
+      decision: decision.decision,
+      rule: decision.ruleId,
+    });
+  }
+
+  return {
+    decision,
+    securityChecks,
+    summary,
+    aiAnalysis,
+  };
+};
+
+// Refreshes the Safe's address book from its executed history and incoming
+// transfers at most every few minutes; a failed refresh leaves the last
+// known state in place
+const loadCounterpartyHistory = async (
+  safeConfig: SafeConfig,
+  apiKit: SafeApiKit
+) => {
+  const store = AddressBookStore.getInstance();
+
+  if (await store.isSyncDue(safeConfig)) {
+    try {
+      // Read back to the last nonce the address book has counted and past
+      // the start of the longest velocity window, whichever is older
+      const lastSyncedNonce = await store.getLastSyncedNonce(safeConfig);
+      const windowStart = Date.now() - MAX_WINDOW_MS;
+      const history = await apiKit.getMultisigTransactions(safeConfig.address);
+      const executed = await collectPages(
+        history,
+        (tx) =>
+          Number(tx.nonce) <= lastSyncedNonce &&
+          !!tx.executionDate &&
+          Date.parse(tx.executionDate) < windowStart
+      );
+      await store.syncFromHistory(safeConfig, executed);
+
+      // Incoming transfers are read back to the newest one already seen
+      const inboundSyncedAt = await store.getInboundSyncedAt(safeConfig);
+      const incoming = await apiKit.getIncomingTransactions(safeConfig.address);
+      const transfers = await collectPages(
+        incoming,
+        (transfer) =>
+          !!inboundSyncedAt &&
+          Date.parse(transfer.executionDate) <= Date.parse(inboundSyncedAt)
+      );
+      await store.syncInboundTransfers(safeConfig, transfers);
+
+      await OutflowLedger.getInstance().syncFromHistory(safeConfig, executed);
+    } catch (error) {
+      Logger.warn("address-book", "Failed to sync address book", {
+        safe: safeConfig.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    addressBook: await store.getAddressBook(safeConfig),
+    inboundDust: await store.getInboundDust(safeConfig),
+  };
+};
+
+// The Transaction Service is the source of truth for whether we already
+// confirmed, so a retried transaction is never signed twice
+const isConfirmedBySigner = (
+  tx: SafeMultisigTransactionResponse,
+  signerAddress: string | undefined
+) =>
+  !!signerAddress &&
+  (tx.confirmations ?? []).some(
+    (confirmation) =>
+      confirmation.owner.toLowerCase() === signerAddress.toLowerCase()
+  );
+
+// Signs and submits the agent's confirmation unless the Transaction Service
+// already has it
+const confirmTransaction = async (
+  tx: SafeMultisigTransactionResponse,
+  {
+    apiKit,
+    signer,
+    safeConfig,
+  }: { apiKit: SafeApiKit; signer: Signer; safeConfig: SafeConfig }
+): Promise<"signed" | "already-signed"> => {
+  if (isConfirmedBySigner(tx, await signer.getAddress())) {
+    return "already-signed";
+  }
+
+  const signature = await signSafeTxHash(signer, {
+    safeTxHash: tx.safeTxHash,
+    safe: tx.safe,
+    chainId: safeConfig.chainId,
+  });
+
+  await apiKit.confirmTransaction(tx.safeTxHash, signature);
+
+  // Count it against the velocity limits before it is even executed
+  try {
+    await OutflowLedger.getInstance().recordSigned(safeConfig, tx);
+  } catch (error) {
+    Logger.error("velocity", "Failed to record signed transaction", {
+      safeTxHash: tx.safeTxHash,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return "signed";
+};
+
+/**
+ * Analyze one pending transaction and, when the policy allows it, sign and
+ * submit the agent's confirmation (or only record it in shadow mode).
+ */
+export const processTransaction = async (
+  tx: SafeMultisigTransactionResponse,
+  {
+    apiKit,
+    signer,
+    safeInfo,
+    safeConfig,
+    progress,
+  }: {
+    apiKit: SafeApiKit;
+    signer: Signer | null;
+    safeInfo: SafeInfoResponse;
+    safeConfig: SafeConfig;
+    progress?: AnalysisProgress;
+  }
+) => {
+  const history = await loadCounterpartyHistory(safeConfig, apiKit);
+  const { decision, securityChecks, summary, aiAnalysis } =
+    await runSecurityChecks(tx, safeInfo, safeConfig, history, progress);
+
+  // A cancelled run never signs
+  progress?.signal?.throwIfAborted();
+
+  let action: SigningAction = "not-signed";
+
+  // A human's verdict outranks the policy: a rejected transaction is never
+  // signed, and a queued one only through the reviewer's approval
+  const review =
+    decision.decision === "allow"
+      ? await ReviewQueue.getInstance().get(tx.safeTxHash)
+      : undefined;
+
+  if (review?.status === "pending" || review?.status === "rejected") {
+    action = "held-by-review";
+    Logger.info("security", "Not signing, transaction is under review", {
+      safeTxHash: tx.safeTxHash,
+      review: review.status,
+    });
+  } else if (decision.decision === "allow") {
+    if (signer) {
+      try {
+        action = await confirmTransaction(tx, { apiKit, signer, safeConfig });
+      } catch (error) {
+        action = "sign-failed";
+        Logger.error("security", "Failed to sign transaction", {
+          txHash: tx.transactionHash,
+          backend: signer.backend,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } else {
+      action = "would-sign";
+      Logger.info("security", "Shadow mode: would have signed transaction", {
+        safeTxHash: tx.safeTxHash,
+        rule: decision.ruleId,
+      });
+
+      // Shadow runs count their own would-be signatures, so they show what
+      // the velocity limits would have done
+      try {
+        await OutflowLedger.getInstance().recordSigned(
+          safeConfig,
+          tx,
+          "shadow"
+        );
+      } catch (error) {
+        Logger.error("velocity", "Failed to record shadow signature", {
+          safeTxHash: tx.safeTxHash,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  progress?.onEvent?.({
+    type: "signing",
+    safeTxHash: tx.safeTxHash,
+    action,
+  });
+
+  // The report is for consumers of the API; failing to build it must not
+  // affect signing
+  let report: SecurityReport | undefined;
+  let reportError: string | undefined;
+  try {
+    report = buildSecurityReport(tx, {
+      chainId: safeConfig.chainId,
+      securityChecks,
+      decision,
+      signing: {
+        action,
+        mode: SIGNING_MODE,
+        signerBackend: action === "signed" ? signer?.backend : undefined,
+      },
+      model: {
+        agent: process.env.AGENT_NAME || "default-agent",
+        llm: SECURITY_ANALYSIS_MODEL,
+      },
+      analysis: aiAnalysis,
+    });
+  } catch (error) {
+    reportError = error instanceof Error ? error.message : String(error);
+    Logger.error("security", "Failed to build security report", {
+      safeTxHash: tx.safeTxHash,
+      error: reportError,
+    });
+  }
+
+  // Refused transactions wait for a human reviewer
+  if (decision.decision !== "allow") {
+    try {
+      await ReviewQueue.getInstance().enqueue({
+        safeTxHash: tx.safeTxHash,
+        chainId: String(safeConfig.chainId),
+        safe: tx.safe,
+        nonce: Number(tx.nonce),
+        decision,
+      });
+    } catch (error) {
+      Logger.error("reviews", "Failed to queue transaction for review", {
+        safeTxHash: tx.safeTxHash,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Losing the record must not change what was signed, so failures are
+  // only logged
+  try {
+    await AnalysisHistoryStore.getInstance().record({
+      safeTxHash: tx.safeTxHash,
+      chainId: String(safeConfig.chainId),
+      safe: tx.safe,
+      nonce: Number(tx.nonce),
+      to: tx.to,
+      value: tx.value,
+      decision,
+      action,
+      signingMode: SIGNING_MODE,
+      signerBackend: action === "signed" ? signer?.backend : undefined,
+      securityChecks,
+      summary,
+      aiAnalysis,
+      report,
+    });
+  } catch (error) {
+    Logger.error("history", "Failed to record analysis", {
+      safeTxHash: tx.safeTxHash,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  NotificationDispatcher.getInstance().notify({
+    event: "transaction.verdict",
+    safeTxHash: tx.safeTxHash,
+    chainId: safeConfig.chainId,
+    safe: tx.safe,
+    nonce: Number(tx.nonce),
+    to: tx.to,
+    value: tx.value,
+    decision,
+    action,
+    signingMode: SIGNING_MODE,
+    severity: highestRisk(Object.values(securityChecks)),
+    checks: Object.fromEntries(
+      Object.entries(securityChecks).map(([id, { safe, risk, message }]) => [
+        id,
+        { safe, risk, message },
+      ])
+    ),
+    summary,
+    aiAnalysis,
+    createdAt: new Date().toISOString(),
+  });
+
+  return {
+    safeTxHash: tx.safeTxHash,
+    nonce: Number(tx.nonce),
+    decision,
+    action,
+    securityChecks,
+    summary,
+    aiAnalysis,
+    report,
+    reportError,
+  };
+};
+
+export const createSafeApiKit = (safeConfig: SafeConfig): SafeApiKit =>
+  new SafeApiKit.default({
+    chainId: BigInt(safeConfig.chainId),
+    txServiceUrl: safeConfig.txServiceUrl,
+  });
+
+/**
+ * Sign a transaction a human reviewer approved, bypassing the policy. Fails
+ * if the transaction was executed in the meantime.
+ */
+export const signApprovedTransaction = async (
+  safeConfig: SafeConfig,
+  safeTxHash: string
+): Promise<SigningAction> => {
+  const apiKit = createSafeApiKit(safeConfig);
+  const tx = await apiKit.getTransaction(safeTxHash);
+
+  if (tx.isExecuted) {
+    throw new Error("Transaction was already executed");
+  }
+
+  const signer = getSafeSigner(safeConfig);
+  if (!signer) return "would-sign";
+
+  return confirmTransaction(tx, { apiKit, signer, safeConfig });
+};
+
+export const analyzePendingTransactions = async ({
+  chainId,
+  safeAddress,
+  progress,
+}: {
+  chainId: bigint;
+  safeAddress: string;
+  progress?: AnalysisProgress;
+}) => {
+  const safeConfig = findSafe(chainId, safeAddress);
+
+  if (!safeConfig) {
+    throw new Error(
+      `Safe ${safeAddress} on chain ${chainId} is not configured`
+    );
+  }
+
+  const apiKit = createSafeApiKit(safeConfig);
+
+  const signer = getSafeSigner(safeConfig);
+
+  const transactions = await apiKit.getPendingTransactions(safeConfig.address);
+
+  const notExecutedTransactions = transactions.results.filter(
+    (tx: SafeMultisigTransactionResponse) => tx.executionDate === null
+  );
+
+  const transactionsResults = [];
+
+  if (notExecutedTransactions.length) {
+    const safeInfo = await apiKit.getSafeInfo(safeConfig.address);
+
+    for (const [position, tx] of notExecutedTransactions.entries()) {
+      progress?.signal?.throwIfAborted();
+      progress?.onEvent?.({
+        type: "transaction",
+        safeTxHash: tx.safeTxHash,
+        nonce: Number(tx.nonce),
+        to: tx.to,
+        value: tx.value,
+        position,
+        total: notExecutedTransactions.length,
+      });
+
+      const result = await processTransaction(tx, {
+        apiKit,
+        signer,
+        safeInfo,
+        safeConfig,
+        progress,
+      });
+
+      transactionsResults.push(result);
+
+      if (result.decision.decision !== "allow") {
+        return {
+          safe: false,
+          decision: result.decision,
+          signingMode: SIGNING_MODE,
+          transactionsResults,
+          // Later transactions are left for after this one is resolved
+          skipped: notExecutedTransactions
+            .slice(position + 1)
+            .map((skipped) => ({
+              safeTxHash: skipped.safeTxHash,
+              nonce: Number(skipped.nonce),
+            })),
+          lastTransaction: tx,
+        };
+      }
+    }
+  }
+
+  return {
+    safe: true,
+    signingMode: SIGNING_MODE,
+    transactionsResults,
+    skipped: [],
+    lastTransaction:
+      notExecutedTransactions[notExecutedTransactions.length - 1],
+  };
+};
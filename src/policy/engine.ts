@@ -0,0 +1,192 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { Logger } from "../utils/logger";
+import { RISK_LEVELS, RiskLevel } from "../checks/types";
+import { compareRisk, highestRisk } from "../checks/helpers";
+import { isBatchCall } from "../utils/multiSend";
+import {
+  DECISIONS,
+  Policy,
+  PolicyConditions,
+  PolicyDecision,
+  PolicyInput,
+  RiskRange,
+} from "./types";
+
+const POLICY_PATH =
+  process.env.POLICY_PATH || path.resolve(process.cwd(), "config/policy.json");
+
+// Used when the policy file is missing or invalid: nothing is auto-signed
+const FAIL_CLOSED_POLICY: Policy = {
+  version: 1,
+  default: "needs-human",
+  rules: [],
+};
+
+const validatePolicy = (policy: Policy): Policy => {
+  if (policy.version !== 1) {
+    throw new Error(`Unsupported policy version ${policy.version}`);
+  }
+  if (!DECISIONS.includes(policy.default)) {
+    throw new Error(`Invalid default decision "${policy.default}"`);
+  }
+  if (!Array.isArray(policy.rules)) {
+    throw new Error("Policy rules must be an array");
+  }
+
+  const riskLevels = (range?: RiskRange) =>
+    [range?.atLeast, range?.atMost].filter(Boolean) as RiskLevel[];
+
+  for (const rule of policy.rules) {
+    if (!rule.id || !DECISIONS.includes(rule.decision)) {
+      throw new Error(`Rule ${rule.id ?? "<unnamed>"} has no valid decision`);
+    }
+
+    const ranges = [rule.when?.risk, ...Object.values(rule.when?.checks ?? {})];
+    for (const level of ranges.flatMap(riskLevels)) {
+      if (!RISK_LEVELS.includes(level)) {
+        throw new Error(`Rule ${rule.id} uses unknown risk level "${level}"`);
+      }
+    }
+  }
+
+  return policy;
+};
+
+export const loadPolicy = (policyPath = POLICY_PATH): Policy => {
+  try {
+    return validatePolicy(JSON.parse(fs.readFileSync(policyPath, "utf8")));
+  } catch (error) {
+    Logger.error("policy", "Failed to load policy, failing closed", {
+      path: policyPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return FAIL_CLOSED_POLICY;
+  }
+};
+
+const policies = new Map<string, Policy>();
+
+export const getPolicy = (policyPath = POLICY_PATH): Policy => {
+  if (!policies.has(policyPath))
+    policies.set(policyPath, loadPolicy(policyPath));
+  return policies.get(policyPath)!;
+};
+
+const inRange = (risk: RiskLevel, range: RiskRange) =>
+  (!range.atLeast || compareRisk(risk, range.atLeast) >= 0) &&
+  (!range.atMost || compareRisk(risk, range.atMost) <= 0);
+
+const matches = (
+  when: PolicyConditions,
+  { tx, chainId, calls, executedCalls, securityChecks }: PolicyInput,
+  addressBook: Set<string>
+): boolean => {
+  const checks = Object.values(securityChecks);
+
+  if (
+    when.safes &&
+    !when.safes.some((safe) => safe.toLowerCase() === tx.safe.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (when.chainIds && !when.chainIds.map(BigInt).includes(chainId)) {
+    return false;
+  }
+
+  if (when.risk) {
+    if (!inRange(highestRisk(checks), when.risk)) return false;
+  }
+
+  for (const [id, condition] of Object.entries(when.checks ?? {})) {
+    const check = securityChecks[id];
+    // A condition on a disabled check never matches
+    if (!check) return false;
+    if (condition.safe !== undefined && check.safe !== condition.safe) {
+      return false;
+    }
+    if (!inRange(check.risk, condition)) return false;
+  }
+
+  if (
+    when.methods &&
+    !calls.some(
+      (call) => call.decoded && when.methods!.includes(call.decoded.method)
+    )
+  ) {
+    return false;
+  }
+
+  if (when.operation) {
+    const operation = when.operation === "delegatecall" ? 1 : 0;
+    if (!calls.some((call) => call.operation === operation)) return false;
+  }
+
+  if (
+    when.nativeTransfersOnly &&
+    !calls.every((call) => !call.data || call.data === "0x")
+  ) {
+    return false;
+  }
+
+  if (when.totalValueEth) {
+    const total = executedCalls.reduce(
+      (sum, call) => sum + BigInt(call.value),
+      0n
+    );
+    const { min, max } = when.totalValueEth;
+    if (min !== undefined && total < ethers.parseEther(min)) return false;
+    if (max !== undefined && total > ethers.parseEther(max)) return false;
+  }
+
+  if (when.destinations) {
+    const allowed =
+      when.destinations === "addressBook"
+        ? addressBook
+        : new Set(when.destinations.map((address) => address.toLowerCase()));
+    // The MultiSend library behind a batch is judged by its inner calls
+    const destinations = executedCalls.filter((call) => !isBatchCall(call));
+    if (!destinations.every((call) => allowed.has(call.to.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Evaluate the policy rules in order and return the first match, or the
+ * policy default when no rule matches. Allow rules never match a
+ * transaction without calls, whose conditions would all hold vacuously.
+ */
+export const evaluatePolicy = (
+  input: PolicyInput,
+  activePolicy: Policy = getPolicy()
+): PolicyDecision => {
+  const addressBook = new Set([
+    ...Object.values(activePolicy.addressBook ?? {}).map((address) =>
+      address.toLowerCase()
+    ),
+    ...[...(input.addressBook?.values() ?? [])]
+      .filter((entry) => entry.trust === "trusted")
+      .map((entry) => entry.address.toLowerCase()),
+  ]);
+
+  const rule = activePolicy.rules.find(
+    (candidate) =>
+      (candidate.decision !== "allow" || input.calls.length > 0) &&
+      matches(candidate.when ?? {}, input, addressBook)
+  );
+
+  if (!rule) {
+    return { decision: activePolicy.default, ruleId: "default" };
+  }
+
+  return {
+    decision: rule.decision,
+    ruleId: rule.id,
+    description: rule.description,
+  };
+};
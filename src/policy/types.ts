@@ -0,0 +1,69 @@
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { RiskLevel, SecurityChecks } from "../checks/types";
+import { TransactionCall } from "../utils/multiSend";
+import { AddressBook } from "../addressBook/addressBook";
+
+export type Decision = "allow" | "deny" | "needs-human";
+
+export const DECISIONS: Decision[] = ["allow", "deny", "needs-human"];
+
+export interface RiskRange {
+  atLeast?: RiskLevel;
+  atMost?: RiskLevel;
+}
+
+// Every condition present in a rule must hold for the rule to match
+export interface PolicyConditions {
+  safes?: string[];
+  chainIds?: number[];
+  // Highest risk reported by any check
+  risk?: RiskRange;
+  // Per-check conditions keyed by check id
+  checks?: Record<string, RiskRange & { safe?: boolean }>;
+  // At least one call invokes one of these methods
+  methods?: string[];
+  // At least one call uses this operation
+  operation?: "call" | "delegatecall";
+  // Every call is a plain native transfer without calldata
+  nativeTransfersOnly?: boolean;
+  // Total native value sent by all executed calls, in ETH
+  totalValueEth?: { min?: string; max?: string };
+  // Every executed call goes to one of these addresses, or to the policy
+  // address book
+  destinations?: "addressBook" | string[];
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  decision: Decision;
+  when: PolicyConditions;
+}
+
+export interface Policy {
+  version: 1;
+  // Decision when no rule matches
+  default: Decision;
+  // Label -> address entries usable via `destinations: "addressBook"`, on
+  // top of the Safe's trusted address book entries
+  addressBook?: Record<string, string>;
+  // Evaluated in order, first match wins
+  rules: PolicyRule[];
+}
+
+export interface PolicyInput {
+  tx: SafeMultisigTransactionResponse;
+  chainId: bigint;
+  calls: TransactionCall[];
+  // The calls plus the batch call wrapping them, as run by the checks
+  executedCalls: TransactionCall[];
+  securityChecks: SecurityChecks;
+  addressBook?: AddressBook;
+}
+
+export interface PolicyDecision {
+  decision: Decision;
+  // Id of the matched rule, or "default" when none matched
+  ruleId: string;
+  description?: string;
+}
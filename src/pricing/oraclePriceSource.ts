@@ -0,0 +1,68 @@
+import { ethers } from "ethers";
+import { PriceSource, TokenPrice } from "./types";
+
+const AGGREGATOR_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+/**
+ * USD prices from Chainlink-compatible aggregators, read over the Safe's
+ * RPC. Stale or non-positive answers are treated as missing.
+ */
+export class OraclePriceSource implements PriceSource {
+  readonly name = "chainlink";
+  private readonly feeds: Record<string, Record<string, string>>;
+
+  constructor(
+    feeds: Record<string, Record<string, string>>,
+    private readonly maxAgeSeconds: number
+  ) {
+    this.feeds = Object.fromEntries(
+      Object.entries(feeds).map(([chainId, tokens]) => [
+        chainId,
+        Object.fromEntries(
+          Object.entries(tokens).map(([token, aggregator]) => [
+            token.toLowerCase(),
+            aggregator,
+          ])
+        ),
+      ])
+    );
+  }
+
+  async getPrice(
+    chainId: number,
+    token: string,
+    rpcUrl: string
+  ): Promise<TokenPrice | undefined> {
+    const aggregator = this.feeds[chainId]?.[token.toLowerCase()];
+    if (!aggregator) return undefined;
+
+    const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, {
+      staticNetwork: true,
+    });
+
+    try {
+      const feed = new ethers.Contract(aggregator, AGGREGATOR_ABI, provider);
+      const [decimals, round] = await Promise.all([
+        feed.decimals(),
+        feed.latestRoundData(),
+      ]);
+
+      const age = Date.now() / 1000 - Number(round.updatedAt);
+      if (round.answer <= 0n || age > this.maxAgeSeconds) return undefined;
+
+      return {
+        usd: Number(ethers.formatUnits(round.answer, decimals)),
+        source: this.name,
+      };
+    } finally {
+      provider.destroy();
+    }
+  }
+
+  listTokens(chainId: number): string[] {
+    return Object.keys(this.feeds[chainId] ?? {});
+  }
+}
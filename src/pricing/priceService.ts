@@ -0,0 +1,338 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { Logger } from "../utils/logger";
+import { getParam } from "../utils/calldata";
+import { TransactionCall } from "../utils/multiSend";
+import { SafeConfig, safeKey } from "../safes/registry";
+import { OraclePriceSource } from "./oraclePriceSource";
+import { StaticPriceSource } from "./staticPriceSource";
+import { NATIVE, PriceSource, PriceSourceConfig, TokenPrice } from "./types";
+
+interface PricingConfig {
+  // How long prices and treasury values are reused
+  cacheTtlMs: number;
+  // Tried in order; the first source that prices a token wins
+  sources: PriceSourceConfig[];
+}
+
+// Value leaving the Safe in one call
+export interface Outflow {
+  // Token address, or NATIVE
+  token: string;
+  recipient: string;
+  amount: string;
+  symbol?: string;
+  // Amount in whole tokens, when the decimals are known
+  units?: number;
+  usd?: number;
+  priceSource?: string;
+}
+
+const PRICING_CONFIG_PATH =
+  process.env.PRICING_CONFIG_PATH ||
+  path.resolve(process.cwd(), "config/pricing.json");
+
+const DEFAULT_CACHE_TTL_MS = 60000;
+const DEFAULT_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+const ERC20_READ_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+];
+
+const validateSource = (raw: any, index: number): PriceSourceConfig => {
+  switch (raw?.type) {
+    case "static":
+      if (typeof raw.path !== "string") {
+        throw new Error(`sources[${index}]: static source requires a path`);
+      }
+      return { type: "static", path: raw.path };
+    case "chainlink":
+      if (typeof raw.feeds !== "object" || !raw.feeds) {
+        throw new Error(`sources[${index}]: chainlink source requires feeds`);
+      }
+      return {
+        type: "chainlink",
+        feeds: raw.feeds,
+        maxAgeSeconds: raw.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS,
+      };
+    default:
+      throw new Error(`sources[${index}]: unknown source type ${raw?.type}`);
+  }
+};
+
+export const loadPricingConfig = (
+  configPath = PRICING_CONFIG_PATH
+): PricingConfig => {
+  let raw: any = {};
+
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      Logger.error("pricing", "Failed to read pricing config", {
+        path: configPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const sources = ((raw.sources ?? []) as unknown[]).flatMap((entry, index) => {
+    try {
+      return [validateSource(entry, index)];
+    } catch (error) {
+      Logger.error("pricing", "Ignoring invalid price source", {
+        path: configPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  });
+
+  return { cacheTtlMs: raw.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS, sources };
+};
+
+const createPriceSource = (config: PriceSourceConfig): PriceSource => {
+  switch (config.type) {
+    case "static":
+      return new StaticPriceSource(config.path);
+    case "chainlink":
+      return new OraclePriceSource(config.feeds, config.maxAgeSeconds);
+  }
+};
+
+/**
+ * Native and ERC-20 value a call moves out of the Safe: the call value,
+ * `transfer`, and `transferFrom` drawing on the Safe's own balance.
+ */
+export const getOutflows = (
+  call: TransactionCall,
+  safe: string
+): { token: string; recipient: string; amount: bigint }[] => {
+  const outflows = [];
+  const { decoded } = call;
+
+  if (BigInt(call.value) > 0n) {
+    outflows.push({
+      token: NATIVE,
+      recipient: call.to,
+      amount: BigInt(call.value),
+    });
+  }
+
+  if (decoded?.signature === "transfer(address,uint256)") {
+    outflows.push({
+      token: call.to,
+      recipient: String(getParam(decoded, "to", 0)),
+      amount: BigInt(String(getParam(decoded, "value", 1))),
+    });
+  } else if (
+    decoded?.signature === "transferFrom(address,address,uint256)" &&
+    String(getParam(decoded, "from", 0)).toLowerCase() === safe.toLowerCase()
+  ) {
+    outflows.push({
+      token: call.to,
+      recipient: String(getParam(decoded, "to", 1)),
+      amount: BigInt(String(getParam(decoded, "value", 2))),
+    });
+  }
+
+  return outflows;
+};
+
+type Cached<T> = { value: T; expiresAt: number };
+
+/**
+ * Values token amounts in USD through the configured price sources, with
+ * a short-lived cache so batches and repeated analyses reuse lookups.
+ */
+export class PriceService {
+  private static instance: PriceService;
+  private readonly sources: PriceSource[];
+  private prices = new Map<string, Cached<TokenPrice | undefined>>();
+  private decimals = new Map<string, number | undefined>();
+  private treasuries = new Map<string, Cached<number | undefined>>();
+
+  private constructor(private readonly config: PricingConfig) {
+    this.sources = config.sources.map(createPriceSource);
+  }
+
+  public static getInstance(): PriceService {
+    if (!PriceService.instance) {
+      PriceService.instance = new PriceService(loadPricingConfig());
+    }
+    return PriceService.instance;
+  }
+
+  private cached<T>(
+    cache: Map<string, Cached<T>>,
+    key: string,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) return Promise.resolve(hit.value);
+
+    return load().then((value) => {
+      cache.set(key, { value, expiresAt: Date.now() + this.config.cacheTtlMs });
+      return value;
+    });
+  }
+
+  public getPrice(
+    safeConfig: SafeConfig,
+    token: string
+  ): Promise<TokenPrice | undefined> {
+    const key = `${safeConfig.chainId}:${token.toLowerCase()}`;
+
+    return this.cached(this.prices, key, async () => {
+      for (const source of this.sources) {
+        try {
+          const price = await source.getPrice(
+            safeConfig.chainId,
+            token,
+            safeConfig.rpcUrl
+          );
+          if (price) return price;
+        } catch (error) {
+          Logger.warn("pricing", "Price source failed", {
+            source: source.name,
+            token,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      return undefined;
+    });
+  }
+
+  private async getDecimals(
+    safeConfig: SafeConfig,
+    token: string,
+    provider: ethers.Provider
+  ): Promise<number | undefined> {
+    if (token === NATIVE) return 18;
+
+    const key = `${safeConfig.chainId}:${token.toLowerCase()}`;
+    if (!this.decimals.has(key)) {
+      try {
+        const contract = new ethers.Contract(token, ERC20_READ_ABI, provider);
+        this.decimals.set(key, Number(await contract.decimals()));
+      } catch {
+        // Not an ERC-20 (or no RPC); amounts stay in raw units
+        return undefined;
+      }
+    }
+    return this.decimals.get(key);
+  }
+
+  private async toUnits(
+    safeConfig: SafeConfig,
+    token: string,
+    amount: bigint,
+    provider: ethers.Provider
+  ) {
+    const price = await this.getPrice(safeConfig, token);
+    const decimals =
+      price?.decimals ?? (await this.getDecimals(safeConfig, token, provider));
+    const units =
+      decimals === undefined
+        ? undefined
+        : Number(ethers.formatUnits(amount, decimals));
+
+    return {
+      price,
+      units,
+      usd: price && units !== undefined ? units * price.usd : undefined,
+    };
+  }
+
+  public async valueOutflows(
+    safeConfig: SafeConfig,
+    call: TransactionCall,
+    safe: string
+  ): Promise<Outflow[]> {
+    const outflows = getOutflows(call, safe);
+    if (!outflows.length) return [];
+
+    const provider = this.createProvider(safeConfig);
+    try {
+      return await Promise.all(
+        outflows.map(async ({ token, recipient, amount }) => {
+          const { price, units, usd } = await this.toUnits(
+            safeConfig,
+            token,
+            amount,
+            provider
+          );
+
+          return {
+            token,
+            recipient,
+            amount: amount.toString(),
+            symbol: price?.symbol ?? (token === NATIVE ? "ETH" : undefined),
+            units,
+            usd,
+            priceSource: price?.source,
+          };
+        })
+      );
+    } finally {
+      provider.destroy();
+    }
+  }
+
+  /**
+   * USD value of the Safe's holdings across every token the price sources
+   * know on its chain; undefined when nothing could be priced.
+   */
+  public getTreasuryUsd(safeConfig: SafeConfig): Promise<number | undefined> {
+    return this.cached(this.treasuries, safeKey(safeConfig), async () => {
+      const tokens = new Set(
+        this.sources.flatMap((source) =>
+          source.listTokens(safeConfig.chainId).map((t) => t.toLowerCase())
+        )
+      );
+      if (!tokens.size) return undefined;
+
+      const provider = this.createProvider(safeConfig);
+      try {
+        const values = await Promise.all(
+          [...tokens].map(async (token) => {
+            try {
+              const balance: bigint =
+                token === NATIVE
+                  ? await provider.getBalance(safeConfig.address)
+                  : await new ethers.Contract(
+                      token,
+                      ERC20_READ_ABI,
+                      provider
+                    ).balanceOf(safeConfig.address);
+
+              return (await this.toUnits(safeConfig, token, balance, provider))
+                .usd;
+            } catch {
+              return undefined;
+            }
+          })
+        );
+
+        const priced = values.filter(
+          (value): value is number => value !== undefined
+        );
+        return priced.length
+          ? priced.reduce((total, value) => total + value, 0)
+          : undefined;
+      } finally {
+        provider.destroy();
+      }
+    });
+  }
+
+  // A static network keeps an unreachable RPC from retrying detection
+  private createProvider(safeConfig: SafeConfig) {
+    return new ethers.JsonRpcProvider(safeConfig.rpcUrl, safeConfig.chainId, {
+      staticNetwork: true,
+    });
+  }
+}
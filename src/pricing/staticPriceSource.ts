@@ -0,0 +1,62 @@
+import fs from "fs";
+import path from "path";
+import { Logger } from "../utils/logger";
+import { PriceSource, TokenPrice } from "./types";
+
+type PriceFile = Record<
+  string,
+  Record<string, { usd: number; decimals?: number; symbol?: string }>
+>;
+
+/**
+ * Prices read from a JSON file keyed by chain id, then by token address or
+ * "native". The file is read once; a missing or invalid file prices nothing.
+ */
+export class StaticPriceSource implements PriceSource {
+  readonly name = "static";
+  private prices: PriceFile | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  private load(): PriceFile {
+    if (this.prices) return this.prices;
+
+    const resolved = path.resolve(process.cwd(), this.filePath);
+    try {
+      const raw = JSON.parse(fs.readFileSync(resolved, "utf8"));
+      // Token keys are matched in lowercase
+      this.prices = Object.fromEntries(
+        Object.entries(raw as PriceFile).map(([chainId, tokens]) => [
+          chainId,
+          Object.fromEntries(
+            Object.entries(tokens).map(([token, price]) => [
+              token.toLowerCase(),
+              price,
+            ])
+          ),
+        ])
+      );
+    } catch (error) {
+      Logger.error("pricing", "Failed to read static prices", {
+        path: resolved,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.prices = {};
+    }
+    return this.prices;
+  }
+
+  async getPrice(
+    chainId: number,
+    token: string
+  ): Promise<TokenPrice | undefined> {
+    const price = this.load()[chainId]?.[token.toLowerCase()];
+    if (typeof price?.usd !== "number") return undefined;
+
+    return { ...price, source: this.name };
+  }
+
+  listTokens(chainId: number): string[] {
+    return Object.keys(this.load()[chainId] ?? {});
+  }
+}
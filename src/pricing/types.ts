@@ -0,0 +1,35 @@
+// Price lookups key tokens by lowercase address; the chain's native coin
+// uses this key
+export const NATIVE = "native";
+
+export type PriceSourceConfig =
+  // Prices kept in a JSON file, for offline use
+  | { type: "static"; path: string }
+  // Chainlink-compatible aggregators read over the Safe's RPC, per chain:
+  // token key -> aggregator address
+  | {
+      type: "chainlink";
+      feeds: Record<string, Record<string, string>>;
+      // Answers older than this are ignored
+      maxAgeSeconds: number;
+    };
+
+export interface TokenPrice {
+  usd: number;
+  // Known decimals of the token, saving an RPC read
+  decimals?: number;
+  symbol?: string;
+  // Name of the source that priced the token
+  source: string;
+}
+
+export interface PriceSource {
+  readonly name: string;
+  getPrice(
+    chainId: number,
+    token: string,
+    rpcUrl: string
+  ): Promise<TokenPrice | undefined>;
+  // Tokens the source can price on a chain, used to value the treasury
+  listTokens(chainId: number): string[];
+}
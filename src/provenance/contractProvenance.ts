@@ -0,0 +1,246 @@
+import fs from "fs/promises";
+import path from "path";
+import { ethers } from "ethers";
+import { Logger } from "../utils/logger";
+import { AddressListService, FeedMatch } from "../utils/addressLists";
+
+// Where and by whom a contract was deployed. Never changes, so it is cached
+// for good.
+export interface ContractCreation {
+  creationBlock: number;
+  // Unix time of the creation block
+  creationTimestamp: number;
+  // Sender of the deploying transaction, when it deployed the contract
+  // directly; unknown for contracts created by factories
+  deployer?: string;
+  creationTxHash?: string;
+  // Nonce of the deploying transaction: how many transactions the deployer
+  // had sent before
+  deployerNonce?: number;
+}
+
+const CONTRACT_PROVENANCE_PATH =
+  process.env.CONTRACT_PROVENANCE_PATH ||
+  path.resolve(process.cwd(), "data/contract-provenance.json");
+
+export const DAY_SECONDS = 24 * 60 * 60;
+
+// Contracts younger than this many days are flagged
+export const MIN_CONTRACT_AGE_DAYS = parseInt(
+  process.env.CONTRACT_MIN_AGE_DAYS || "7"
+);
+
+// Drainer contracts usually come from throwaway wallets that had sent at
+// most a couple of transactions before deploying
+const FRESH_DEPLOYER_MAX_NONCE = 2;
+
+// A contract's creation details graded against the current block
+export interface ProvenanceAssessment extends ContractCreation {
+  ageBlocks: number;
+  ageDays: number;
+  young: boolean;
+  freshDeployer: boolean;
+  // Threat-feed darklist entries of the deployer
+  deployerMatches: FeedMatch[];
+}
+
+export const formatAge = (days: number) =>
+  days < 1 ? `${Math.round(days * 24)} hours` : `${Math.floor(days)} days`;
+
+/**
+ * Lowest block in [low, high] from which `holds` is true, by binary search.
+ * `holds` must be true at `high` and stay true once it is.
+ */
+export const findFirstBlock = async (
+  low: number,
+  high: number,
+  holds: (block: number) => Promise<boolean>
+): Promise<number> => {
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (await holds(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  return low;
+};
+
+/**
+ * Lowest block at which `address` has code, by binary search over
+ * `eth_getCode`. Needs an archive node for anything but recent blocks.
+ */
+export const findCreationBlock = (
+  provider: ethers.Provider,
+  address: string,
+  latest: number
+): Promise<number> =>
+  findFirstBlock(
+    0,
+    latest,
+    async (block) => (await provider.getCode(address, block)) !== "0x"
+  );
+
+// A direct deployment is a transaction without `to` whose CREATE address
+// is the contract
+const findDeployment = async (
+  provider: ethers.Provider,
+  address: string,
+  blockNumber: number
+) => {
+  const block = await provider.getBlock(blockNumber, true);
+  if (!block) throw new Error(`Block ${blockNumber} not found`);
+
+  const deployment = block.prefetchedTransactions.find(
+    (tx) =>
+      tx.to === null &&
+      ethers
+        .getCreateAddress({ from: tx.from, nonce: tx.nonce })
+        .toLowerCase() === address.toLowerCase()
+  );
+
+  return { block, deployment };
+};
+
+/**
+ * Creation block and deployer of contracts, per chain, cached on disk.
+ */
+export class ContractProvenanceStore {
+  private static instance: ContractProvenanceStore;
+  private creations: Record<string, ContractCreation> = {};
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Lookups in flight, so concurrent checks share one binary search
+  private pending = new Map<string, Promise<ContractCreation>>();
+
+  private constructor(private readonly filePath: string) {}
+
+  public static getInstance(): ContractProvenanceStore {
+    if (!ContractProvenanceStore.instance) {
+      ContractProvenanceStore.instance = new ContractProvenanceStore(
+        CONTRACT_PROVENANCE_PATH
+      );
+    }
+    return ContractProvenanceStore.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          this.creations = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+      })();
+      // Let a failed load be retried on the next call
+      this.loading.catch(() => (this.loading = null));
+    }
+    return this.loading;
+  }
+
+  // Writes are serialized and go through a temp file + rename so the file
+  // is never left half-written
+  private persist(): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(this.creations, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    // A failed write must not block the ones queued after it
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Creation details of a contract known to have code at `latest`.
+   */
+  public async getCreation(
+    provider: ethers.Provider,
+    chainId: number,
+    address: string,
+    latest: number
+  ): Promise<ContractCreation> {
+    await this.load();
+
+    const key = `${chainId}:${address.toLowerCase()}`;
+    if (this.creations[key]) return this.creations[key];
+
+    if (!this.pending.has(key)) {
+      this.pending.set(
+        key,
+        this.lookup(provider, address, latest)
+          .then(async (creation) => {
+            this.creations[key] = creation;
+            await this.persist().catch((error) => {
+              Logger.error("provenance", "Failed to save contract provenance", {
+                error: error instanceof Error ? error.message : String(error),
+              });
+            });
+            return creation;
+          })
+          .finally(() => this.pending.delete(key))
+      );
+    }
+    return this.pending.get(key)!;
+  }
+
+  private async lookup(
+    provider: ethers.Provider,
+    address: string,
+    latest: number
+  ): Promise<ContractCreation> {
+    const creationBlock = await findCreationBlock(provider, address, latest);
+    const { block, deployment } = await findDeployment(
+      provider,
+      address,
+      creationBlock
+    );
+
+    return {
+      creationBlock,
+      creationTimestamp: block.timestamp,
+      deployer: deployment?.from,
+      creationTxHash: deployment?.hash,
+      deployerNonce: deployment?.nonce,
+    };
+  }
+}
+
+/**
+ * Age and deployer of a contract known to have code at `latest`, with the
+ * deployer looked up in the threat feeds.
+ */
+export const assessProvenance = async (
+  provider: ethers.Provider,
+  chainId: number,
+  address: string,
+  latest: ethers.Block
+): Promise<ProvenanceAssessment> => {
+  const creation = await ContractProvenanceStore.getInstance().getCreation(
+    provider,
+    chainId,
+    address,
+    latest.number
+  );
+
+  const feeds = AddressListService.getInstance();
+  await feeds.load();
+
+  const ageDays = (latest.timestamp - creation.creationTimestamp) / DAY_SECONDS;
+  return {
+    ...creation,
+    ageBlocks: latest.number - creation.creationBlock,
+    ageDays,
+    young: ageDays < MIN_CONTRACT_AGE_DAYS,
+    freshDeployer:
+      creation.deployerNonce !== undefined &&
+      creation.deployerNonce <= FRESH_DEPLOYER_MAX_NONCE,
+    deployerMatches: creation.deployer
+      ? feeds.getMatches(creation.deployer, "darklist")
+      : [],
+  };
+};
@@ -0,0 +1,227 @@
+import { ethers } from "ethers";
+import { getParam } from "../utils/calldata";
+import { TransactionCall } from "../utils/multiSend";
+import { findFirstBlock } from "./contractProvenance";
+
+export type ProxyKind =
+  "eip1967" | "transparent" | "beacon" | "eip1822" | "safe";
+
+export interface ProxyInfo {
+  kind: ProxyKind;
+  implementation: string;
+  // EIP-1967 admin of a Transparent proxy
+  admin?: string;
+  // Beacon a beacon proxy reads its implementation from
+  beacon?: string;
+}
+
+// An implementation change made by a call
+export interface ProxyUpgrade {
+  // Contract whose implementation changes: a proxy, or a beacon shared by
+  // many proxies
+  proxy: string;
+  newImplementation: string;
+  // Call made to the new implementation right after upgrading
+  data?: string;
+}
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+// bytes32(uint256(keccak256("eip1967.proxy.admin")) - 1)
+const ADMIN_SLOT =
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+// bytes32(uint256(keccak256("eip1967.proxy.beacon")) - 1)
+const BEACON_SLOT =
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582cfb34e8c50";
+// keccak256("PROXIABLE")
+const PROXIABLE_SLOT =
+  "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7";
+// Safe proxies keep their singleton in the first storage slot
+const SAFE_SINGLETON_SLOT = 0;
+
+const BEACON_ABI = ["function implementation() view returns (address)"];
+const SAFE_PROXY_ABI = ["function masterCopy() view returns (address)"];
+
+// Address held in the low 20 bytes of a storage slot, if any
+const slotAddress = (value: string): string | undefined => {
+  const address = ethers.getAddress(ethers.dataSlice(value, 12));
+  return address === ethers.ZeroAddress ? undefined : address;
+};
+
+const tryRead = async <T>(read: () => Promise<T>) => {
+  try {
+    return await read();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Implementation of a beacon, i.e. an UpgradeableBeacon or any contract
+ * exposing `implementation()`.
+ */
+export const readBeaconImplementation = (
+  provider: ethers.Provider,
+  beacon: string,
+  blockTag?: number
+): Promise<string | undefined> =>
+  tryRead(() =>
+    new ethers.Contract(beacon, BEACON_ABI, provider).implementation({
+      blockTag,
+    })
+  );
+
+// Reads the implementation of a proxy of the given kind, optionally at a
+// past block
+const readImplementation = async (
+  provider: ethers.Provider,
+  proxy: string,
+  info: Omit<ProxyInfo, "implementation">,
+  blockTag?: number
+): Promise<string | undefined> => {
+  switch (info.kind) {
+    case "eip1967":
+    case "transparent":
+      return slotAddress(
+        await provider.getStorage(proxy, IMPLEMENTATION_SLOT, blockTag)
+      );
+    case "eip1822":
+      return slotAddress(
+        await provider.getStorage(proxy, PROXIABLE_SLOT, blockTag)
+      );
+    case "safe":
+      return slotAddress(
+        await provider.getStorage(proxy, SAFE_SINGLETON_SLOT, blockTag)
+      );
+    case "beacon":
+      return readBeaconImplementation(provider, info.beacon!, blockTag);
+  }
+};
+
+/**
+ * Detects the proxy standard of a contract and reads its current
+ * implementation. Returns null for contracts that are not proxies.
+ */
+export const resolveProxy = async (
+  provider: ethers.Provider,
+  address: string
+): Promise<ProxyInfo | null> => {
+  const [implementation, admin, beacon, proxiable] = await Promise.all(
+    [IMPLEMENTATION_SLOT, ADMIN_SLOT, BEACON_SLOT, PROXIABLE_SLOT].map(
+      async (slot) => slotAddress(await provider.getStorage(address, slot))
+    )
+  );
+
+  if (beacon) {
+    const beaconImplementation = await readBeaconImplementation(
+      provider,
+      beacon
+    );
+    if (beaconImplementation) {
+      return { kind: "beacon", implementation: beaconImplementation, beacon };
+    }
+  }
+  if (implementation) {
+    return admin
+      ? { kind: "transparent", implementation, admin }
+      : { kind: "eip1967", implementation };
+  }
+  if (proxiable) return { kind: "eip1822", implementation: proxiable };
+
+  // Safe proxies answer masterCopy() from their fallback with slot 0; other
+  // contracts revert or return something else
+  const [masterCopy, singleton] = await Promise.all([
+    tryRead<string>(() =>
+      new ethers.Contract(address, SAFE_PROXY_ABI, provider).masterCopy()
+    ),
+    provider.getStorage(address, SAFE_SINGLETON_SLOT),
+  ]);
+  if (masterCopy && masterCopy === slotAddress(singleton)) {
+    return { kind: "safe", implementation: masterCopy };
+  }
+
+  return null;
+};
+
+// When each proxy's current implementation was set, keyed by chain, proxy
+// and implementation: a later upgrade gets a new key
+const implementationChanges = new Map<string, number>();
+
+/**
+ * Block at which the proxy's current implementation was set, by binary
+ * search over its implementation at past blocks. Needs an archive node.
+ */
+export const findImplementationChange = async (
+  provider: ethers.Provider,
+  chainId: number,
+  proxy: string,
+  info: ProxyInfo,
+  latest: number
+): Promise<number> => {
+  const key = `${chainId}:${proxy.toLowerCase()}:${info.implementation.toLowerCase()}`;
+  const cached = implementationChanges.get(key);
+  if (cached !== undefined) return cached;
+
+  const block = await findFirstBlock(
+    0,
+    latest,
+    async (blockTag) =>
+      (await readImplementation(provider, proxy, info, blockTag)) ===
+      info.implementation
+  );
+  implementationChanges.set(key, block);
+  return block;
+};
+
+/**
+ * Implementation of the proxy just before `block`.
+ */
+export const previousImplementation = (
+  provider: ethers.Provider,
+  proxy: string,
+  info: ProxyInfo,
+  block: number
+): Promise<string | undefined> =>
+  block === 0
+    ? Promise.resolve(undefined)
+    : readImplementation(provider, proxy, info, block - 1);
+
+/**
+ * Implementation change made by a call: UUPS and EIP-1967 `upgradeTo` /
+ * `upgradeToAndCall` (also UpgradeableBeacon `upgradeTo`), ProxyAdmin
+ * `upgrade` / `upgradeAndCall` and Safe `changeMasterCopy`.
+ */
+export const extractUpgrade = (call: TransactionCall): ProxyUpgrade | null => {
+  const { decoded } = call;
+  if (!decoded) return null;
+
+  const str = (name: string, position: number) =>
+    String(getParam(decoded, name, position));
+
+  switch (decoded.signature) {
+    case "upgradeTo(address)":
+      return { proxy: call.to, newImplementation: str("newImplementation", 0) };
+    case "upgradeToAndCall(address,bytes)":
+      return {
+        proxy: call.to,
+        newImplementation: str("newImplementation", 0),
+        data: str("data", 1),
+      };
+    case "upgrade(address,address)":
+      return {
+        proxy: str("proxy", 0),
+        newImplementation: str("implementation", 1),
+      };
+    case "upgradeAndCall(address,address,bytes)":
+      return {
+        proxy: str("proxy", 0),
+        newImplementation: str("implementation", 1),
+        data: str("data", 2),
+      };
+    case "changeMasterCopy(address)":
+      return { proxy: call.to, newImplementation: str("_masterCopy", 0) };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,95 @@
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { SecurityCheck, SecurityChecks } from "../checks/types";
+import { highestRisk } from "../checks/helpers";
+import { PolicyDecision } from "../policy/types";
+import {
+  isBatch,
+  toTransactionCall,
+  TransactionCall,
+  unpackTransaction,
+} from "../utils/multiSend";
+import { validateReport } from "./schema";
+import {
+  REPORT_SCHEMA_VERSION,
+  ReportCall,
+  ReportFinding,
+  ReportModel,
+  ReportSigning,
+  SecurityReport,
+} from "./types";
+
+const toReportCall = (call: TransactionCall): ReportCall => ({
+  index: call.index,
+  to: call.to,
+  value: call.value,
+  data: call.data,
+  operation: call.operation,
+  decoded: call.decoded,
+});
+
+// The transaction's own call, with a batch's inner calls underneath
+const buildCallTree = (tx: SafeMultisigTransactionResponse): ReportCall => {
+  const calls = unpackTransaction(tx);
+  if (!isBatch(calls)) return toReportCall(calls[0]);
+
+  return {
+    ...toReportCall(toTransactionCall(tx)),
+    calls: calls.filter((call) => call.index !== null).map(toReportCall),
+  };
+};
+
+const toFinding = ({
+  safe,
+  risk,
+  message,
+  callIndex,
+  evidence,
+  findings,
+}: SecurityCheck): ReportFinding => ({
+  safe,
+  risk,
+  message,
+  callIndex,
+  evidence,
+  findings: findings?.map(toFinding),
+});
+
+/**
+ * Assembles and validates the report of an analysed transaction.
+ */
+export const buildSecurityReport = (
+  tx: SafeMultisigTransactionResponse,
+  {
+    chainId,
+    securityChecks,
+    decision,
+    signing,
+    model,
+    analysis,
+  }: {
+    chainId: number;
+    securityChecks: SecurityChecks;
+    decision: PolicyDecision;
+    signing: ReportSigning;
+    model: ReportModel;
+    analysis: string;
+  }
+): SecurityReport =>
+  validateReport({
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    safeTxHash: tx.safeTxHash,
+    chainId: String(chainId),
+    safe: tx.safe,
+    nonce: Number(tx.nonce),
+    callTree: buildCallTree(tx),
+    severity: highestRisk(Object.values(securityChecks)),
+    checks: Object.entries(securityChecks).map(([id, check]) => ({
+      id,
+      ...toFinding(check),
+    })),
+    decision,
+    signing,
+    model,
+    analysis,
+    generatedAt: new Date().toISOString(),
+  });
@@ -0,0 +1,191 @@
+import { JsonSchema, SECURITY_REPORT_SCHEMA } from "./schema";
+import { REPORT_SCHEMA_VERSION } from "./types";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// The report schema with its definitions moved to OpenAPI components
+const componentSchemas = (): Record<string, JsonSchema> => {
+  const { $schema, $id, $defs, ...report } = JSON.parse(
+    JSON.stringify(SECURITY_REPORT_SCHEMA).replace(
+      /"#\/\$defs\//g,
+      '"#/components/schemas/'
+    )
+  ) as JsonSchema;
+
+  return { SecurityReport: report, ...$defs };
+};
+
+const json = (schema: unknown, description: string) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const ERROR = json(
+  {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: {
+        type: "object",
+        required: ["message"],
+        properties: { message: { type: "string" } },
+      },
+    },
+  },
+  "Error"
+);
+
+/**
+ * OpenAPI 3.1 document of the versioned API, served at
+ * /api/v1/openapi.json.
+ */
+export const buildOpenApiDocument = () => ({
+  openapi: "3.1.0",
+  info: {
+    title: "Safe Duck Security Agent",
+    version: REPORT_SCHEMA_VERSION,
+    description:
+      "Structured security reports for Safe transactions analysed by the agent",
+  },
+  paths: {
+    "/api/v1/checks": {
+      get: {
+        summary: "List the registered security checks",
+        responses: {
+          "200": json(
+            { type: "array", items: ref("CheckDefinition") },
+            "Registered checks"
+          ),
+        },
+      },
+    },
+    "/api/v1/reports": {
+      get: {
+        summary: "Query reports of past analyses, newest first",
+        parameters: ["safe", "decision", "chainId", "action", "limit"].map(
+          (name) => ({
+            name,
+            in: "query",
+            required: false,
+            schema: { type: name === "limit" ? "integer" : "string" },
+          })
+        ),
+        responses: {
+          "200": json(
+            { type: "array", items: ref("SecurityReport") },
+            "Matching reports"
+          ),
+          "400": ERROR,
+        },
+      },
+    },
+    "/api/v1/reports/{safeTxHash}": {
+      get: {
+        summary: "Latest report of a transaction",
+        parameters: [
+          {
+            name: "safeTxHash",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": json(ref("SecurityReport"), "Report"),
+          "404": ERROR,
+        },
+      },
+    },
+    "/api/v1/transaction-analysis": {
+      post: {
+        summary:
+          "Analyse the pending transactions of a configured Safe, stopping at the first one the policy does not allow",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["safeAddress"],
+                properties: {
+                  safeAddress: { type: "string" },
+                  chainId: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": json(
+            {
+              type: "object",
+              required: ["schemaVersion", "reports", "failures", "skipped"],
+              properties: {
+                schemaVersion: { type: "string" },
+                reports: { type: "array", items: ref("SecurityReport") },
+                // Analysed transactions whose report could not be built
+                failures: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    required: ["safeTxHash", "nonce", "error"],
+                    properties: {
+                      safeTxHash: { type: "string" },
+                      nonce: { type: "integer" },
+                      error: { type: "string" },
+                    },
+                  },
+                },
+                // Pending transactions after the first one the policy does
+                // not allow, which were not analysed
+                skipped: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    required: ["safeTxHash", "nonce"],
+                    properties: {
+                      safeTxHash: { type: "string" },
+                      nonce: { type: "integer" },
+                    },
+                  },
+                },
+              },
+            },
+            "Reports of the analysed transactions"
+          ),
+          "400": ERROR,
+          "404": ERROR,
+          "500": ERROR,
+        },
+      },
+    },
+    "/api/v1/schemas/security-report": {
+      get: {
+        summary: "JSON Schema of SecurityReport",
+        responses: { "200": json({ type: "object" }, "JSON Schema") },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      ...componentSchemas(),
+      CheckDefinition: {
+        type: "object",
+        required: [
+          "id",
+          "description",
+          "defaultSeverity",
+          "enabled",
+          "timeoutMs",
+        ],
+        properties: {
+          id: { type: "string" },
+          description: { type: "string" },
+          defaultSeverity: SECURITY_REPORT_SCHEMA.properties!.severity,
+          enabled: { type: "boolean" },
+          timeoutMs: { type: "integer" },
+        },
+      },
+    },
+  },
+});
@@ -0,0 +1,261 @@
+import { RISK_LEVELS } from "../checks/types";
+import { DECISIONS } from "../policy/types";
+import { REPORT_SCHEMA_VERSION, SecurityReport } from "./types";
+
+// The subset of JSON Schema the report schema uses, and that
+// `validateReport` understands
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  pattern?: string;
+  minimum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+}
+
+const ADDRESS = { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" };
+const HEX = { type: "string", pattern: "^0x[0-9a-fA-F]*$" };
+const RISK = { type: "string", enum: RISK_LEVELS };
+
+/**
+ * JSON Schema (2020-12) of SecurityReport. Served at
+ * /api/v1/schemas/security-report and embedded in the OpenAPI document.
+ */
+export const SECURITY_REPORT_SCHEMA: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `urn:safe-duck:security-report:${REPORT_SCHEMA_VERSION}`,
+  title: "SecurityReport",
+  description: "Machine-readable result of analysing one Safe transaction",
+  type: "object",
+  required: [
+    "schemaVersion",
+    "safeTxHash",
+    "chainId",
+    "safe",
+    "nonce",
+    "callTree",
+    "severity",
+    "checks",
+    "decision",
+    "signing",
+    "model",
+    "analysis",
+    "generatedAt",
+  ],
+  additionalProperties: false,
+  properties: {
+    schemaVersion: { type: "string", enum: [REPORT_SCHEMA_VERSION] },
+    safeTxHash: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" },
+    chainId: { type: "string", pattern: "^[0-9]+$" },
+    safe: ADDRESS,
+    nonce: { type: "integer", minimum: 0 },
+    callTree: { $ref: "#/$defs/Call" },
+    severity: RISK,
+    checks: { type: "array", items: { $ref: "#/$defs/Check" } },
+    decision: { $ref: "#/$defs/Decision" },
+    signing: { $ref: "#/$defs/Signing" },
+    model: { $ref: "#/$defs/Model" },
+    analysis: {
+      type: "string",
+      description: "Advisory LLM prose; decisions never depend on it",
+    },
+    generatedAt: { type: "string" },
+  },
+  $defs: {
+    Call: {
+      description:
+        "A call the Safe executes; a MultiSend batch lists its flattened inner calls",
+      type: "object",
+      required: ["index", "to", "value", "data", "operation", "decoded"],
+      additionalProperties: false,
+      properties: {
+        index: { type: ["integer", "null"], minimum: 0 },
+        to: ADDRESS,
+        value: { type: "string", pattern: "^[0-9]+$" },
+        data: HEX,
+        operation: { type: "integer", enum: [0, 1] },
+        decoded: {
+          type: ["object", "null"],
+          required: ["selector", "method", "signature", "params", "source"],
+          additionalProperties: false,
+          properties: {
+            selector: HEX,
+            method: { type: "string" },
+            signature: { type: "string" },
+            source: {
+              type: "string",
+              enum: ["abi", "signature", "transaction-service"],
+            },
+            params: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["name", "type", "value"],
+                additionalProperties: false,
+                properties: {
+                  name: { type: "string" },
+                  type: { type: "string" },
+                  value: {
+                    description: "Decoded value; tuples and arrays nest",
+                  },
+                },
+              },
+            },
+          },
+        },
+        calls: { type: "array", items: { $ref: "#/$defs/Call" } },
+      },
+    },
+    Finding: {
+      type: "object",
+      required: ["safe", "risk", "message"],
+      additionalProperties: false,
+      properties: {
+        safe: { type: "boolean" },
+        risk: RISK,
+        message: { type: "string" },
+        callIndex: { type: "integer", minimum: 0 },
+        evidence: { description: "Check-specific data backing the result" },
+        findings: { type: "array", items: { $ref: "#/$defs/Finding" } },
+      },
+    },
+    Check: {
+      type: "object",
+      required: ["id", "safe", "risk", "message"],
+      additionalProperties: false,
+      properties: {
+        id: { type: "string" },
+        safe: { type: "boolean" },
+        risk: RISK,
+        message: { type: "string" },
+        callIndex: { type: "integer", minimum: 0 },
+        evidence: { description: "Check-specific data backing the result" },
+        findings: { type: "array", items: { $ref: "#/$defs/Finding" } },
+      },
+    },
+    Decision: {
+      type: "object",
+      required: ["decision", "ruleId"],
+      additionalProperties: false,
+      properties: {
+        decision: { type: "string", enum: DECISIONS },
+        ruleId: { type: "string" },
+        description: { type: "string" },
+      },
+    },
+    Signing: {
+      type: "object",
+      required: ["action", "mode"],
+      additionalProperties: false,
+      properties: {
+        action: { type: "string" },
+        mode: { type: "string", enum: ["live", "shadow"] },
+        signerBackend: {
+          type: "string",
+          enum: ["raw-key", "keystore", "remote"],
+        },
+      },
+    },
+    Model: {
+      type: "object",
+      required: ["agent", "llm"],
+      additionalProperties: false,
+      properties: {
+        agent: { type: "string" },
+        llm: { type: "string" },
+      },
+    },
+  },
+};
+
+const typeOf = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) =>
+  typeOf(value) === type || (type === "number" && typeOf(value) === "integer");
+
+// Collects "path: problem" errors of `value` against `schema`
+const validate = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  errors: string[]
+) => {
+  if (schema.$ref) {
+    const name = schema.$ref.replace("#/$defs/", "");
+    validate(value, SECURITY_REPORT_SCHEMA.$defs![name], path, errors);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(" or ")}`);
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(", ")}`);
+  }
+  if (
+    schema.pattern &&
+    typeof value === "string" &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    errors.push(`${path}: does not match ${schema.pattern}`);
+  }
+  if (
+    schema.minimum !== undefined &&
+    typeof value === "number" &&
+    value < schema.minimum
+  ) {
+    errors.push(`${path}: must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      validate(item, schema.items!, `${path}[${index}]`, errors)
+    );
+  }
+
+  if (typeOf(value) === "object" && schema.properties) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, property] of Object.entries(object)) {
+      if (property === undefined) continue;
+      if (schema.properties[key]) {
+        validate(property, schema.properties[key], `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: unknown property`);
+      }
+    }
+  }
+};
+
+/**
+ * Checks a report against SECURITY_REPORT_SCHEMA, throwing an error that
+ * lists every violation.
+ */
+export const validateReport = (report: unknown): SecurityReport => {
+  const errors: string[] = [];
+  validate(report, SECURITY_REPORT_SCHEMA, "report", errors);
+
+  if (errors.length) {
+    throw new Error(`Invalid security report: ${errors.join("; ")}`);
+  }
+  return report as SecurityReport;
+};
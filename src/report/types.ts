@@ -0,0 +1,70 @@
+import { RiskLevel } from "../checks/types";
+import { DecodedCall } from "../utils/calldata";
+import { PolicyDecision } from "../policy/types";
+import { SignerBackend } from "../signers/types";
+
+// Bumped on any change to the report shape; consumers should reject
+// major versions they do not know
+export const REPORT_SCHEMA_VERSION = "1.0.0";
+
+// A call the Safe executes. A MultiSend batch lists its inner calls.
+export interface ReportCall {
+  // Position inside the batch; null for the transaction's own call
+  index: number | null;
+  to: string;
+  value: string;
+  data: string;
+  // 0 = call, 1 = delegatecall
+  operation: number;
+  decoded: DecodedCall | null;
+  calls?: ReportCall[];
+}
+
+// Result of a check for one call, or for the whole transaction
+export interface ReportFinding {
+  safe: boolean;
+  risk: RiskLevel;
+  message: string;
+  callIndex?: number;
+  evidence?: unknown;
+  findings?: ReportFinding[];
+}
+
+export interface ReportCheck extends ReportFinding {
+  id: string;
+}
+
+export interface ReportModel {
+  // Agent that produced the report (AGENT_NAME)
+  agent: string;
+  // LLM that wrote `analysis`
+  llm: string;
+}
+
+export interface ReportSigning {
+  // e.g. "signed", "would-sign", "not-signed"
+  action: string;
+  mode: "live" | "shadow";
+  signerBackend?: SignerBackend;
+}
+
+/**
+ * Machine-readable result of analysing one Safe transaction.
+ */
+export interface SecurityReport {
+  schemaVersion: string;
+  safeTxHash: string;
+  chainId: string;
+  safe: string;
+  nonce: number;
+  callTree: ReportCall;
+  // Highest risk across all checks
+  severity: RiskLevel;
+  checks: ReportCheck[];
+  decision: PolicyDecision;
+  signing: ReportSigning;
+  model: ReportModel;
+  // Advisory LLM prose; decisions never depend on it
+  analysis: string;
+  generatedAt: string;
+}
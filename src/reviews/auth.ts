@@ -0,0 +1,75 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { NextFunction, Request, Response } from "express";
+import { Logger } from "../utils/logger";
+
+interface Reviewer {
+  name: string;
+  // SHA-256 of the reviewer's bearer token, so the file holds no secrets
+  tokenSha256: string;
+}
+
+const REVIEWERS_PATH =
+  process.env.REVIEWERS_PATH ||
+  path.resolve(process.cwd(), "config/reviewers.json");
+
+export const loadReviewers = (reviewersPath = REVIEWERS_PATH): Reviewer[] => {
+  try {
+    const { reviewers } = JSON.parse(fs.readFileSync(reviewersPath, "utf8"));
+
+    if (
+      !Array.isArray(reviewers) ||
+      !reviewers.every(
+        (reviewer) =>
+          typeof reviewer?.name === "string" &&
+          /^[0-9a-f]{64}$/i.test(reviewer?.tokenSha256)
+      )
+    ) {
+      throw new Error("reviewers must be a list of { name, tokenSha256 }");
+    }
+    return reviewers;
+  } catch (error) {
+    Logger.error("reviews", "Failed to load reviewers, review API disabled", {
+      path: reviewersPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+};
+
+let reviewers: Reviewer[] | null = null;
+
+const getReviewers = (): Reviewer[] => {
+  if (!reviewers) reviewers = loadReviewers();
+  return reviewers;
+};
+
+const findReviewer = (token: string) => {
+  const digest = crypto.createHash("sha256").update(token).digest();
+
+  return getReviewers().find((reviewer) =>
+    crypto.timingSafeEqual(digest, Buffer.from(reviewer.tokenSha256, "hex"))
+  );
+};
+
+/**
+ * Express middleware that admits requests carrying a known reviewer's
+ * bearer token and exposes the reviewer's name as `res.locals.reviewer`.
+ */
+export const requireReviewer = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+  const reviewer = scheme === "Bearer" && token ? findReviewer(token) : null;
+
+  if (!reviewer) {
+    res.status(401).json({ error: { message: "Unauthorized" } });
+    return;
+  }
+
+  res.locals.reviewer = reviewer.name;
+  next();
+};
@@ -0,0 +1,99 @@
+import { Logger } from "../utils/logger";
+import { findSafe } from "../safes/registry";
+import { signApprovedTransaction } from "../pipeline";
+import { Review, ReviewQueue } from "./reviewQueue";
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+  }
+}
+
+// Reviews being resolved right now, so two reviewers cannot act at once
+const inFlight = new Set<string>();
+
+const withPendingReview = async <T>(
+  safeTxHash: string,
+  resolve: (review: Review) => Promise<T>
+): Promise<T> => {
+  // Claimed before the first await, so a concurrent request sees it
+  if (inFlight.has(safeTxHash)) {
+    throw new ReviewError("Review is being resolved by another request", 409);
+  }
+  inFlight.add(safeTxHash);
+
+  try {
+    const review = await ReviewQueue.getInstance().get(safeTxHash);
+
+    if (!review) throw new ReviewError("Review not found", 404);
+    if (review.status !== "pending") {
+      throw new ReviewError(`Review is already ${review.status}`, 409);
+    }
+
+    return await resolve(review);
+  } finally {
+    inFlight.delete(safeTxHash);
+  }
+};
+
+/**
+ * Approve a refused transaction and have the agent sign it.
+ */
+export const approveReview = (
+  safeTxHash: string,
+  { reviewer, reason }: { reviewer: string; reason: string }
+) =>
+  withPendingReview(safeTxHash, async (review) => {
+    const safeConfig = findSafe(BigInt(review.chainId), review.safe);
+    if (!safeConfig) {
+      throw new ReviewError("Safe is no longer configured", 409);
+    }
+
+    const queue = ReviewQueue.getInstance();
+    let action: string;
+
+    try {
+      action = await signApprovedTransaction(safeConfig, safeTxHash);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      Logger.error("reviews", "Failed to sign approved transaction", {
+        safeTxHash,
+        reviewer,
+        error: message,
+      });
+
+      await queue.recordFailedApproval(safeTxHash, {
+        reviewer,
+        reason,
+        error: message,
+      });
+      throw new ReviewError(`Failed to sign: ${message}`, 502);
+    }
+
+    Logger.info("reviews", "Review approved", { safeTxHash, reviewer, action });
+
+    return queue.resolve(safeTxHash, {
+      status: "approved",
+      reviewer,
+      reason,
+      action,
+    });
+  });
+
+export const rejectReview = (
+  safeTxHash: string,
+  { reviewer, reason }: { reviewer: string; reason: string }
+) =>
+  withPendingReview(safeTxHash, async () => {
+    Logger.info("reviews", "Review rejected", { safeTxHash, reviewer });
+
+    return ReviewQueue.getInstance().resolve(safeTxHash, {
+      status: "rejected",
+      reviewer,
+      reason,
+    });
+  });
@@ -0,0 +1,226 @@
+import fs from "fs/promises";
+import path from "path";
+import { Logger } from "../utils/logger";
+import { PolicyDecision } from "../policy/types";
+
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
+export interface Review {
+  safeTxHash: string;
+  chainId: string;
+  safe: string;
+  nonce: number;
+  // The agent's decision that put the transaction up for review
+  decision: PolicyDecision;
+  status: ReviewStatus;
+  createdAt: string;
+  updatedAt: string;
+  reviewer?: string;
+  reason?: string;
+  // Signing outcome of an approval, e.g. "signed" or "would-sign"
+  action?: string;
+}
+
+export interface AuditEntry {
+  at: string;
+  safeTxHash: string;
+  event: "enqueued" | "approved" | "rejected" | "approval-failed";
+  // "agent" for entries the pipeline writes
+  actor: string;
+  reason?: string;
+  action?: string;
+  error?: string;
+}
+
+const REVIEWS_PATH =
+  process.env.REVIEWS_PATH || path.resolve(process.cwd(), "data/reviews.json");
+
+const REVIEW_AUDIT_PATH =
+  process.env.REVIEW_AUDIT_PATH ||
+  path.resolve(process.cwd(), "data/review-audit.jsonl");
+
+/**
+ * Transactions the agent refused to sign, waiting for a human reviewer to
+ * approve or reject them. Every change is appended to an audit trail.
+ */
+export class ReviewQueue {
+  private static instance: ReviewQueue;
+  private reviews: Record<string, Review> = {};
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private readonly filePath: string,
+    private readonly auditPath: string
+  ) {}
+
+  public static getInstance(): ReviewQueue {
+    if (!ReviewQueue.instance) {
+      ReviewQueue.instance = new ReviewQueue(REVIEWS_PATH, REVIEW_AUDIT_PATH);
+    }
+    return ReviewQueue.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          this.reviews = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+
+        Logger.info("reviews", "Loaded review queue", {
+          path: this.filePath,
+          pending: Object.values(this.reviews).filter(
+            (review) => review.status === "pending"
+          ).length,
+        });
+      })();
+      // Let a failed load be retried on the next call
+      this.loading.catch(() => (this.loading = null));
+    }
+    return this.loading;
+  }
+
+  // Writes are serialized; reviews go through a temp file + rename so the
+  // file is never left half-written, audit entries are only appended
+  private write(audit: Omit<AuditEntry, "at">): Promise<void> {
+    const entry: AuditEntry = { at: new Date().toISOString(), ...audit };
+
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.mkdir(path.dirname(this.auditPath), { recursive: true });
+
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(this.reviews, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+      await fs.appendFile(this.auditPath, `${JSON.stringify(entry)}\n`);
+    });
+    // A failed write must not block the ones queued after it
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Queue a refused transaction. A transaction that already has a review is
+   * left alone, so re-analyzing it neither duplicates nor reopens it.
+   */
+  public async enqueue(
+    review: Omit<Review, "status" | "createdAt" | "updatedAt">
+  ): Promise<Review> {
+    await this.load();
+
+    const existing = this.reviews[review.safeTxHash];
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    this.reviews[review.safeTxHash] = {
+      ...review,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.write({
+      safeTxHash: review.safeTxHash,
+      event: "enqueued",
+      actor: "agent",
+      reason: `${review.decision.decision} (${review.decision.ruleId})`,
+    });
+
+    return this.reviews[review.safeTxHash];
+  }
+
+  public async list(status?: ReviewStatus): Promise<Review[]> {
+    await this.load();
+
+    return Object.values(this.reviews)
+      .filter((review) => !status || review.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  public async get(safeTxHash: string): Promise<Review | undefined> {
+    await this.load();
+    return this.reviews[safeTxHash];
+  }
+
+  public async resolve(
+    safeTxHash: string,
+    {
+      status,
+      reviewer,
+      reason,
+      action,
+    }: {
+      status: Exclude<ReviewStatus, "pending">;
+      reviewer: string;
+      reason: string;
+      action?: string;
+    }
+  ): Promise<Review> {
+    await this.load();
+
+    const review = this.reviews[safeTxHash];
+    if (!review) throw new Error(`No review for ${safeTxHash}`);
+
+    this.reviews[safeTxHash] = {
+      ...review,
+      status,
+      reviewer,
+      reason,
+      action,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.write({
+      safeTxHash,
+      event: status,
+      actor: reviewer,
+      reason,
+      action,
+    });
+
+    return this.reviews[safeTxHash];
+  }
+
+  // Records an approval whose signature failed; the review stays pending
+  public async recordFailedApproval(
+    safeTxHash: string,
+    {
+      reviewer,
+      reason,
+      error,
+    }: { reviewer: string; reason: string; error: string }
+  ): Promise<void> {
+    await this.load();
+    await this.write({
+      safeTxHash,
+      event: "approval-failed",
+      actor: reviewer,
+      reason,
+      error,
+    });
+  }
+
+  public async getAuditTrail(safeTxHash: string): Promise<AuditEntry[]> {
+    try {
+      const content = await fs.readFile(this.auditPath, "utf8");
+
+      return content
+        .split("\n")
+        .filter((line) => line.trim())
+        .flatMap((line) => {
+          try {
+            return [JSON.parse(line) as AuditEntry];
+          } catch {
+            return [];
+          }
+        })
+        .filter((entry) => entry.safeTxHash === safeTxHash);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { Logger } from "../utils/logger";
+import { validateSignerConfig } from "../signers/registry";
+import { SignerConfig } from "../signers/types";
+import { validateVelocityLimits } from "../velocity/limits";
+import { VelocityLimit } from "../velocity/types";
+
+// Thresholds at which an outflow is graded low, medium and high risk
+export interface RiskThresholds {
+  low: number;
+  medium: number;
+  high: number;
+}
+
+export interface ValueLimits {
+  usd: RiskThresholds;
+  // Share of the Safe's priced holdings, in percent
+  treasuryPercent: RiskThresholds;
+}
+
+const DEFAULT_VALUE_LIMITS: ValueLimits = {
+  usd: { low: 10000, medium: 100000, high: 1000000 },
+  treasuryPercent: { low: 1, medium: 5, high: 20 },
+};
+
+export interface SafeConfig {
+  name: string;
+  chainId: number;
+  address: string;
+  rpcUrl: string;
+  // Custom Transaction Service; api-kit's default for the chain otherwise
+  txServiceUrl?: string;
+  // Backend holding the agent's owner key for this Safe
+  signer: SignerConfig;
+  // Owners a configuration change must never remove
+  humanSigners: string[];
+  // Policy file for this Safe; POLICY_PATH otherwise
+  policyPath?: string;
+  valueLimits: ValueLimits;
+  // Caps on cumulative outflows over rolling windows
+  velocityLimits: VelocityLimit[];
+}
+
+const SAFES_CONFIG_PATH =
+  process.env.SAFES_CONFIG_PATH ||
+  path.resolve(process.cwd(), "config/safes.json");
+
+export const DEFAULT_CHAIN_ID = 11155111;
+
+const signerFromEnv = (): SignerConfig => {
+  if (process.env.SIGNER_KEYSTORE_PATH) {
+    return validateSignerConfig({
+      type: "keystore",
+      path: process.env.SIGNER_KEYSTORE_PATH,
+    });
+  }
+  if (process.env.REMOTE_SIGNER_URL) {
+    return validateSignerConfig({
+      type: "remote",
+      url: process.env.REMOTE_SIGNER_URL,
+      tokenEnv: "REMOTE_SIGNER_TOKEN",
+    });
+  }
+  return validateSignerConfig({ type: "raw-key" });
+};
+
+// Single Safe described by the original SAFE_ADDRESS/RPC_URL/... variables,
+// used when the config file lists no Safes
+const safeFromEnv = (): SafeConfig[] => {
+  if (!process.env.SAFE_ADDRESS) return [];
+
+  return [
+    {
+      name: "default",
+      chainId: parseInt(process.env.CHAIN_ID || String(DEFAULT_CHAIN_ID)),
+      address: process.env.SAFE_ADDRESS,
+      rpcUrl: process.env.RPC_URL ?? "",
+      signer: signerFromEnv(),
+      humanSigners: process.env.HUMAN_SIGNER_1_ADDRESS
+        ? [process.env.HUMAN_SIGNER_1_ADDRESS]
+        : [],
+      valueLimits: DEFAULT_VALUE_LIMITS,
+      velocityLimits: [],
+    },
+  ];
+};
+
+const validateThresholds = (
+  raw: any,
+  defaults: RiskThresholds,
+  name: string
+): RiskThresholds => {
+  const thresholds = { ...defaults, ...raw };
+  const { low, medium, high } = thresholds;
+
+  if (![low, medium, high].every((value) => typeof value === "number")) {
+    throw new Error(`${name} thresholds must be numbers`);
+  }
+  if (!(low <= medium && medium <= high)) {
+    throw new Error(`${name} thresholds must satisfy low <= medium <= high`);
+  }
+  return { low, medium, high };
+};
+
+const validateSafe = (raw: any, index: number): SafeConfig => {
+  if (!Number.isInteger(raw?.chainId)) {
+    throw new Error(`safes[${index}]: chainId must be an integer`);
+  }
+  if (!ethers.isAddress(raw.address)) {
+    throw new Error(`safes[${index}]: invalid address ${raw.address}`);
+  }
+
+  const rpcUrl = raw.rpcUrl ?? process.env.RPC_URL;
+  if (typeof rpcUrl !== "string" || !rpcUrl) {
+    throw new Error(`safes[${index}]: rpcUrl is required`);
+  }
+
+  const humanSigners = raw.humanSigners ?? [];
+  if (
+    !Array.isArray(humanSigners) ||
+    !humanSigners.every((signer) => ethers.isAddress(signer))
+  ) {
+    throw new Error(`safes[${index}]: humanSigners must be addresses`);
+  }
+
+  let signer: SignerConfig;
+  let valueLimits: ValueLimits;
+  let velocityLimits: VelocityLimit[];
+  try {
+    signer = validateSignerConfig(raw.signer ?? { type: "raw-key" });
+    valueLimits = {
+      usd: validateThresholds(
+        raw.valueLimits?.usd,
+        DEFAULT_VALUE_LIMITS.usd,
+        "valueLimits.usd"
+      ),
+      treasuryPercent: validateThresholds(
+        raw.valueLimits?.treasuryPercent,
+        DEFAULT_VALUE_LIMITS.treasuryPercent,
+        "valueLimits.treasuryPercent"
+      ),
+    };
+    velocityLimits = validateVelocityLimits(raw.velocityLimits);
+  } catch (error) {
+    throw new Error(
+      `safes[${index}]: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return {
+    name: raw.name ?? `${raw.chainId}:${raw.address}`,
+    chainId: raw.chainId,
+    address: ethers.getAddress(raw.address),
+    rpcUrl,
+    txServiceUrl: raw.txServiceUrl,
+    signer,
+    humanSigners,
+    policyPath: raw.policyPath
+      ? path.resolve(process.cwd(), raw.policyPath)
+      : undefined,
+    valueLimits,
+    velocityLimits,
+  };
+};
+
+export const loadSafesConfig = (configPath = SAFES_CONFIG_PATH) => {
+  let entries: unknown[] = [];
+
+  try {
+    entries = JSON.parse(fs.readFileSync(configPath, "utf8")).safes ?? [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      Logger.error("safes", "Failed to read Safes config", {
+        path: configPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (!entries.length) return safeFromEnv();
+
+  // An invalid entry is left unguarded rather than guessed at
+  return entries.flatMap((entry, index) => {
+    try {
+      return [validateSafe(entry, index)];
+    } catch (error) {
+      Logger.error("safes", "Ignoring invalid Safe config", {
+        path: configPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  });
+};
+
+let safes: SafeConfig[] | null = null;
+
+export const getSafes = (): SafeConfig[] => {
+  if (!safes) safes = loadSafesConfig();
+  return safes;
+};
+
+export const findSafe = (
+  chainId: bigint | number,
+  address: string
+): SafeConfig | undefined =>
+  getSafes().find(
+    (safe) =>
+      BigInt(safe.chainId) === BigInt(chainId) &&
+      safe.address.toLowerCase() === address.toLowerCase()
+  );
+
+export const safeKey = (safe: Pick<SafeConfig, "chainId" | "address">) =>
+  `${safe.chainId}:${safe.address.toLowerCase()}`;
@@ -0,0 +1,67 @@
+import fs from "fs";
+import express, { Request, Response } from "express";
+import { ethers } from "ethers";
+
+/**
+ * Local stand-in for a remote signer, speaking the protocol RemoteSigner
+ * expects. Signs with DEV_SIGNER_PRIVATE_KEY and listens on
+ * DEV_SIGNER_SOCKET (a Unix socket path) or DEV_SIGNER_PORT. Development
+ * and testing only.
+ *
+ *   pnpm signer:dev
+ */
+const key = process.env.DEV_SIGNER_PRIVATE_KEY;
+
+if (!key) {
+  console.error("DEV_SIGNER_PRIVATE_KEY is required");
+  process.exit(1);
+}
+
+const wallet = new ethers.Wallet(key);
+const token = process.env.DEV_SIGNER_TOKEN;
+
+const app = express();
+app.use(express.json());
+
+app.use((req: Request, res: Response, next) => {
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    res.status(401).json({ error: { message: "Unauthorized" } });
+    return;
+  }
+  next();
+});
+
+app.get("/address", (req: Request, res: Response) => {
+  res.json({ address: wallet.address });
+});
+
+app.post("/sign", (req: Request, res: Response) => {
+  (async () => {
+    const { safeTxHash, safe, chainId } = req.body ?? {};
+
+    if (!ethers.isHexString(safeTxHash, 32)) {
+      res.status(400).json({ error: { message: "Invalid safeTxHash" } });
+      return;
+    }
+
+    console.log("Signing", { safeTxHash, safe, chainId });
+
+    res.json({
+      signature: await wallet.signMessage(ethers.getBytes(safeTxHash)),
+    });
+  })();
+});
+
+const socketPath = process.env.DEV_SIGNER_SOCKET;
+
+if (socketPath) {
+  if (fs.existsSync(socketPath)) fs.unlinkSync(socketPath);
+  app.listen(socketPath, () =>
+    console.log(`Dev signer ${wallet.address} listening on ${socketPath}`)
+  );
+} else {
+  const port = parseInt(process.env.DEV_SIGNER_PORT || "8600");
+  app.listen(port, "127.0.0.1", () =>
+    console.log(`Dev signer ${wallet.address} listening on port ${port}`)
+  );
+}
@@ -0,0 +1,49 @@
+import fs from "fs/promises";
+import path from "path";
+import { ethers } from "ethers";
+import { Signer, SigningRequest } from "./types";
+
+/**
+ * Signs with a key from an encrypted JSON keystore. The keystore is
+ * decrypted once, on first use, since scrypt makes decryption slow.
+ */
+export class KeystoreSigner implements Signer {
+  readonly backend = "keystore";
+  private wallet: Promise<ethers.Wallet | ethers.HDNodeWallet> | null = null;
+
+  constructor(
+    private readonly keystorePath: string,
+    private readonly passphraseEnv: string
+  ) {}
+
+  private unlock() {
+    if (!this.wallet) {
+      this.wallet = (async () => {
+        const passphrase = process.env[this.passphraseEnv];
+
+        if (passphrase === undefined) {
+          throw new Error(`Missing keystore passphrase ${this.passphraseEnv}`);
+        }
+
+        const json = await fs.readFile(
+          path.resolve(process.cwd(), this.keystorePath),
+          "utf8"
+        );
+
+        return ethers.Wallet.fromEncryptedJson(json, passphrase);
+      })();
+      // Let a failed unlock (e.g. a wrong passphrase) be retried
+      this.wallet.catch(() => (this.wallet = null));
+    }
+    return this.wallet;
+  }
+
+  async getAddress() {
+    return (await this.unlock()).address;
+  }
+
+  async signHash({ safeTxHash }: SigningRequest) {
+    const wallet = await this.unlock();
+    return wallet.signMessage(ethers.getBytes(safeTxHash));
+  }
+}
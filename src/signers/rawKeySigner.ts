@@ -0,0 +1,29 @@
+import { ethers } from "ethers";
+import { Signer, SigningRequest } from "./types";
+
+/**
+ * Signs with a private key taken from the environment. Kept for local
+ * development; the agent refuses to start with it in production.
+ */
+export class RawKeySigner implements Signer {
+  readonly backend = "raw-key";
+  private readonly wallet: ethers.Wallet;
+
+  constructor(keyEnv: string) {
+    const key = process.env[keyEnv];
+
+    if (!key) {
+      throw new Error(`Missing signer key ${keyEnv}`);
+    }
+
+    this.wallet = new ethers.Wallet(key);
+  }
+
+  async getAddress() {
+    return this.wallet.address;
+  }
+
+  async signHash({ safeTxHash }: SigningRequest) {
+    return this.wallet.signMessage(ethers.getBytes(safeTxHash));
+  }
+}
@@ -0,0 +1,101 @@
+import { ethers } from "ethers";
+import { Logger } from "../utils/logger";
+import { KeystoreSigner } from "./keystoreSigner";
+import { RawKeySigner } from "./rawKeySigner";
+import { RemoteSigner } from "./remoteSigner";
+import { Signer, SignerConfig, SigningRequest } from "./types";
+
+const DEFAULT_REMOTE_TIMEOUT_MS = 10000;
+
+export const validateSignerConfig = (raw: any): SignerConfig => {
+  switch (raw?.type) {
+    case "raw-key":
+      return { type: "raw-key", keyEnv: raw.keyEnv ?? "SIGNER_PRIVATE_KEY" };
+    case "keystore":
+      if (typeof raw.path !== "string") {
+        throw new Error("keystore signer requires a path");
+      }
+      return {
+        type: "keystore",
+        path: raw.path,
+        passphraseEnv: raw.passphraseEnv ?? "SIGNER_KEYSTORE_PASSPHRASE",
+      };
+    case "remote":
+      if (!raw.url === !raw.socketPath) {
+        throw new Error(
+          "remote signer requires exactly one of url, socketPath"
+        );
+      }
+      return {
+        type: "remote",
+        url: raw.url,
+        socketPath: raw.socketPath,
+        tokenEnv: raw.tokenEnv,
+        timeoutMs: raw.timeoutMs ?? DEFAULT_REMOTE_TIMEOUT_MS,
+      };
+    default:
+      throw new Error(`Unknown signer type ${raw?.type}`);
+  }
+};
+
+export const createSigner = (config: SignerConfig): Signer => {
+  switch (config.type) {
+    case "raw-key":
+      return new RawKeySigner(config.keyEnv);
+    case "keystore":
+      return new KeystoreSigner(config.path, config.passphraseEnv);
+    case "remote":
+      return new RemoteSigner(config);
+  }
+};
+
+/**
+ * Raw keys sit in the process environment in plain text, so production
+ * deployments must use a keystore or a remote signer.
+ */
+export const assertSignersAllowed = (configs: SignerConfig[]) => {
+  if (process.env.NODE_ENV !== "production") return;
+
+  if (configs.some((config) => config.type === "raw-key")) {
+    throw new Error(
+      "raw-key signer is not allowed in production; configure a keystore or remote signer"
+    );
+  }
+};
+
+/**
+ * Sign a safeTxHash with the given backend and return it in the form the
+ * Safe expects for eth_sign signatures (v + 4). The signature is checked
+ * against the signer's address first, so a misbehaving backend cannot get a
+ * foreign signature submitted.
+ */
+export const signSafeTxHash = async (
+  signer: Signer,
+  request: SigningRequest
+): Promise<string> => {
+  const [address, signature] = await Promise.all([
+    signer.getAddress(),
+    signer.signHash(request),
+  ]);
+
+  const recovered = ethers.verifyMessage(
+    ethers.getBytes(request.safeTxHash),
+    signature
+  );
+
+  if (recovered.toLowerCase() !== address.toLowerCase()) {
+    throw new Error(
+      `${signer.backend} signer returned a signature from ${recovered}, expected ${address}`
+    );
+  }
+
+  const { r, s, v } = ethers.Signature.from(signature);
+
+  Logger.info("signer", "Signed safeTxHash", {
+    safeTxHash: request.safeTxHash,
+    backend: signer.backend,
+    signer: address,
+  });
+
+  return ethers.concat([r, s, ethers.toBeHex(v + 4, 1)]);
+};
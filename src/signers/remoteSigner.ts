@@ -0,0 +1,65 @@
+import axios, { AxiosInstance } from "axios";
+import { ethers } from "ethers";
+import { Signer, SigningRequest } from "./types";
+
+/**
+ * Client for a remote signer speaking a minimal JSON protocol over HTTP(S)
+ * or a Unix socket:
+ *
+ *   GET  /address -> { "address": "0x..." }
+ *   POST /sign    { "safeTxHash", "safe", "chainId" } -> { "signature": "0x..." }
+ *
+ * The signature is an EIP-191 signature over the 32 bytes of safeTxHash.
+ * See devRemoteSigner.ts for a local stand-in.
+ */
+export class RemoteSigner implements Signer {
+  readonly backend = "remote";
+  private readonly http: AxiosInstance;
+  private address: string | null = null;
+
+  constructor({
+    url,
+    socketPath,
+    tokenEnv,
+    timeoutMs,
+  }: {
+    url?: string;
+    socketPath?: string;
+    tokenEnv?: string;
+    timeoutMs: number;
+  }) {
+    const token = tokenEnv ? process.env[tokenEnv] : undefined;
+
+    this.http = axios.create({
+      // Over a Unix socket the host part is ignored
+      baseURL: socketPath ? "http://localhost" : url,
+      socketPath,
+      timeout: timeoutMs,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  async getAddress() {
+    if (!this.address) {
+      const { data } = await this.http.get<{ address: string }>("/address");
+
+      if (!ethers.isAddress(data?.address)) {
+        throw new Error("Remote signer returned an invalid address");
+      }
+      this.address = ethers.getAddress(data.address);
+    }
+    return this.address;
+  }
+
+  async signHash(request: SigningRequest) {
+    const { data } = await this.http.post<{ signature: string }>(
+      "/sign",
+      request
+    );
+
+    if (!ethers.isHexString(data?.signature, 65)) {
+      throw new Error("Remote signer returned an invalid signature");
+    }
+    return data.signature;
+  }
+}
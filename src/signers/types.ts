@@ -0,0 +1,31 @@
+export type SignerBackend = "raw-key" | "keystore" | "remote";
+
+export type SignerConfig =
+  // Private key read from an environment variable; development only
+  | { type: "raw-key"; keyEnv: string }
+  // Encrypted JSON keystore (ethers/geth format)
+  | { type: "keystore"; path: string; passphraseEnv: string }
+  // Remote signer reached over HTTP(S) or a Unix socket
+  | {
+      type: "remote";
+      url?: string;
+      socketPath?: string;
+      // Environment variable holding a bearer token for the signer
+      tokenEnv?: string;
+      timeoutMs: number;
+    };
+
+// Sent along with each signing request so a remote signer can apply its own
+// checks before signing
+export interface SigningRequest {
+  safeTxHash: string;
+  safe: string;
+  chainId: number;
+}
+
+export interface Signer {
+  readonly backend: SignerBackend;
+  getAddress(): Promise<string>;
+  // EIP-191 (personal_sign) signature over the 32 bytes of the safeTxHash
+  signHash(request: SigningRequest): Promise<string>;
+}
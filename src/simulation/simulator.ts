@@ -0,0 +1,382 @@
+import { ethers } from "ethers";
+import { Logger } from "../utils/logger";
+import { isBatchCall, TransactionCall } from "../utils/multiSend";
+import { AllowanceChange, BalanceChange, SimulationResult } from "./types";
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+const APPROVAL_TOPIC = ethers.id("Approval(address,address,uint256)");
+const APPROVAL_FOR_ALL_TOPIC = ethers.id(
+  "ApprovalForAll(address,address,bool)"
+);
+
+// Extra ETH credited to the impersonated Safe so it can pay for gas
+const GAS_BUFFER = ethers.parseEther("10");
+
+interface SimulatedLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+}
+
+interface CallTraceFrame {
+  from: string;
+  to?: string;
+  value?: string;
+  type: string;
+  logs?: SimulatedLog[];
+  calls?: CallTraceFrame[];
+}
+
+interface ExecutionTrace {
+  reverted: boolean;
+  revertReason?: string;
+  revertedCallIndex?: number | null;
+  logs: SimulatedLog[];
+  nativeDelta: bigint;
+  logsAvailable: boolean;
+}
+
+const OPERATION_DELEGATECALL = 1;
+
+const topicToAddress = (topic: string) =>
+  ethers.getAddress(ethers.dataSlice(topic, 12));
+
+const toUint = (data: string) => (data === "0x" ? 0n : BigInt(data));
+
+const revertReasonOf = (error: unknown) => {
+  if (error && typeof error === "object") {
+    const { reason, shortMessage } = error as {
+      reason?: string;
+      shortMessage?: string;
+    };
+    if (reason) return reason;
+    if (shortMessage) return shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// anvil accepts both prefixes, hardhat only its own
+const sendDevRpc = async (
+  provider: ethers.JsonRpcProvider,
+  method: string,
+  params: unknown[]
+) => {
+  try {
+    return await provider.send(`anvil_${method}`, params);
+  } catch {
+    return await provider.send(`hardhat_${method}`, params);
+  }
+};
+
+const toRequest = (safe: string, call: TransactionCall) => ({
+  from: safe,
+  to: call.to,
+  data: call.data,
+  value: ethers.toQuantity(BigInt(call.value)),
+});
+
+/**
+ * Execute the calls in order from the impersonated Safe on a snapshot of a
+ * local fork, then roll the fork back.
+ */
+const executeOnFork = async (
+  provider: ethers.JsonRpcProvider,
+  safe: string,
+  calls: TransactionCall[],
+  snapshotId: string,
+  signal?: AbortSignal
+): Promise<ExecutionTrace> => {
+  const trace: ExecutionTrace = {
+    reverted: false,
+    logs: [],
+    nativeDelta: 0n,
+    logsAvailable: true,
+  };
+
+  try {
+    await sendDevRpc(provider, "impersonateAccount", [safe]);
+
+    const balanceBefore = await provider.getBalance(safe);
+    await sendDevRpc(provider, "setBalance", [
+      safe,
+      ethers.toQuantity(balanceBefore + GAS_BUFFER),
+    ]);
+
+    let gasCost = 0n;
+
+    for (const call of calls) {
+      signal?.throwIfAborted();
+      const request = toRequest(safe, call);
+
+      // eth_call first so that a revert comes back with its reason
+      try {
+        await provider.call(request);
+      } catch (error) {
+        trace.reverted = true;
+        trace.revertReason = revertReasonOf(error);
+        trace.revertedCallIndex = call.index;
+        break;
+      }
+
+      const hash = await provider.send("eth_sendTransaction", [request]);
+      const receipt = await provider.waitForTransaction(hash);
+
+      if (!receipt || receipt.status !== 1) {
+        trace.reverted = true;
+        trace.revertedCallIndex = call.index;
+        break;
+      }
+
+      gasCost += receipt.gasUsed * receipt.gasPrice;
+      trace.logs.push(...receipt.logs);
+    }
+
+    const balanceAfter = await provider.getBalance(safe);
+    trace.nativeDelta = balanceAfter + gasCost - balanceBefore - GAS_BUFFER;
+
+    return trace;
+  } finally {
+    await provider.send("evm_revert", [snapshotId]);
+  }
+};
+
+const flattenFrames = (frame: CallTraceFrame): CallTraceFrame[] => [
+  frame,
+  ...(frame.calls ?? []).flatMap(flattenFrames),
+];
+
+/**
+ * Replay each call independently with eth_call, using debug_traceCall for
+ * logs and internal value transfers when the node supports it.
+ */
+const executeWithCalls = async (
+  provider: ethers.JsonRpcProvider,
+  safe: string,
+  calls: TransactionCall[],
+  signal?: AbortSignal
+): Promise<ExecutionTrace> => {
+  const trace: ExecutionTrace = {
+    reverted: false,
+    logs: [],
+    nativeDelta: 0n,
+    logsAvailable: true,
+  };
+  const safeLower = safe.toLowerCase();
+
+  for (const call of calls) {
+    signal?.throwIfAborted();
+    const request = toRequest(safe, call);
+
+    try {
+      await provider.call(request);
+    } catch (error) {
+      trace.reverted = true;
+      trace.revertReason = revertReasonOf(error);
+      trace.revertedCallIndex = call.index;
+      break;
+    }
+
+    let root: CallTraceFrame | null = null;
+    if (trace.logsAvailable) {
+      try {
+        root = await provider.send("debug_traceCall", [
+          request,
+          "latest",
+          { tracer: "callTracer", tracerConfig: { withLog: true } },
+        ]);
+      } catch {
+        trace.logsAvailable = false;
+      }
+    }
+
+    if (!root) {
+      trace.nativeDelta -= BigInt(call.value);
+      continue;
+    }
+
+    for (const frame of flattenFrames(root)) {
+      trace.logs.push(...(frame.logs ?? []));
+
+      const value = frame.value ? BigInt(frame.value) : 0n;
+      if (value === 0n || frame.type === "DELEGATECALL") continue;
+      if (frame.from.toLowerCase() === safeLower) trace.nativeDelta -= value;
+      if (frame.to?.toLowerCase() === safeLower) trace.nativeDelta += value;
+    }
+  }
+
+  return trace;
+};
+
+const summarizeLogs = (safe: string, logs: SimulatedLog[]) => {
+  const safeLower = safe.toLowerCase();
+  const erc20 = new Map<string, bigint>();
+  const erc721 = new Map<string, { in: string[]; out: string[] }>();
+  const allowanceChanges: AllowanceChange[] = [];
+
+  for (const log of logs) {
+    const token = ethers.getAddress(log.address);
+    const [topic, ...indexed] = log.topics;
+
+    if (topic === TRANSFER_TOPIC && indexed.length >= 2) {
+      const from = topicToAddress(indexed[0]).toLowerCase();
+      const to = topicToAddress(indexed[1]).toLowerCase();
+      if (from !== safeLower && to !== safeLower) continue;
+
+      if (indexed.length === 3) {
+        const tokenId = BigInt(indexed[2]).toString();
+        const entry = erc721.get(token) ?? { in: [], out: [] };
+        if (from === safeLower) entry.out.push(tokenId);
+        if (to === safeLower) entry.in.push(tokenId);
+        erc721.set(token, entry);
+      } else {
+        const amount = toUint(log.data);
+        const delta =
+          (to === safeLower ? amount : 0n) - (from === safeLower ? amount : 0n);
+        erc20.set(token, (erc20.get(token) ?? 0n) + delta);
+      }
+    }
+
+    if (topic === APPROVAL_TOPIC && indexed.length >= 2) {
+      if (topicToAddress(indexed[0]).toLowerCase() !== safeLower) continue;
+      const spender = topicToAddress(indexed[1]);
+
+      allowanceChanges.push(
+        indexed.length === 3
+          ? {
+              token,
+              spender,
+              standard: "erc721",
+              tokenId: BigInt(indexed[2]).toString(),
+            }
+          : {
+              token,
+              spender,
+              standard: "erc20",
+              amount: toUint(log.data).toString(),
+            }
+      );
+    }
+
+    if (topic === APPROVAL_FOR_ALL_TOPIC && indexed.length === 2) {
+      if (topicToAddress(indexed[0]).toLowerCase() !== safeLower) continue;
+      allowanceChanges.push({
+        token,
+        spender: topicToAddress(indexed[1]),
+        standard: "operator",
+        approved: toUint(log.data) !== 0n,
+      });
+    }
+  }
+
+  const balanceChanges: BalanceChange[] = [
+    ...Array.from(erc20.entries())
+      .filter(([, delta]) => delta !== 0n)
+      .map(([asset, delta]) => ({
+        asset,
+        standard: "erc20" as const,
+        delta: delta.toString(),
+      })),
+    ...Array.from(erc721.entries()).map(([asset, ids]) => ({
+      asset,
+      standard: "erc721" as const,
+      delta: (ids.in.length - ids.out.length).toString(),
+      tokenIdsIn: ids.in,
+      tokenIdsOut: ids.out,
+    })),
+  ];
+
+  return { balanceChanges, allowanceChanges };
+};
+
+const runSimulation = async (
+  rpcUrl: string,
+  safe: string,
+  calls: TransactionCall[],
+  signal?: AbortSignal
+): Promise<SimulationResult> => {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+
+  try {
+    // MultiSend batch calls are replayed through their inner calls;
+    // other delegatecalls cannot be reproduced from outside the Safe
+    const executable = calls.filter(
+      (call) => call.operation !== OPERATION_DELEGATECALL
+    );
+    const unsimulatedCalls = calls
+      .filter(
+        (call) =>
+          call.operation === OPERATION_DELEGATECALL && !isBatchCall(call)
+      )
+      .map((call) => call.index);
+
+    let snapshotId: string | null = null;
+    try {
+      snapshotId = await provider.send("evm_snapshot", []);
+    } catch {
+      Logger.debug("simulation", "evm_snapshot unsupported, using eth_call");
+    }
+
+    const trace = snapshotId
+      ? await executeOnFork(provider, safe, executable, snapshotId, signal)
+      : await executeWithCalls(provider, safe, executable, signal);
+
+    const { balanceChanges, allowanceChanges } = summarizeLogs(
+      safe,
+      trace.logs
+    );
+
+    if (trace.nativeDelta !== 0n) {
+      balanceChanges.unshift({
+        asset: "ETH",
+        standard: "native",
+        delta: trace.nativeDelta.toString(),
+      });
+    }
+
+    return {
+      mode: snapshotId ? "fork" : "call",
+      reverted: trace.reverted,
+      revertReason: trace.revertReason,
+      revertedCallIndex: trace.revertedCallIndex,
+      balanceChanges,
+      allowanceChanges,
+      unsimulatedCalls,
+      logsAvailable: trace.logsAvailable,
+    };
+  } finally {
+    provider.destroy();
+  }
+};
+
+// Tail of the simulations queued per RPC URL. Fork runs share the node's
+// snapshot, impersonation and balance state, so they must not interleave.
+const simulationQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Simulate the calls a Safe transaction executes and report the resulting
+ * balance and allowance changes for the Safe. Uses a snapshot of a local
+ * anvil/hardhat fork when available, otherwise falls back to eth_call.
+ * Simulations against the same RPC URL run one at a time. Stops between
+ * calls once `signal` aborts; a fork is still rolled back.
+ */
+export const simulateTransaction = (
+  rpcUrl: string,
+  safe: string,
+  calls: TransactionCall[],
+  signal?: AbortSignal
+): Promise<SimulationResult> => {
+  const previous = simulationQueues.get(rpcUrl) ?? Promise.resolve();
+  const simulation = previous.then(() => {
+    signal?.throwIfAborted();
+    return runSimulation(rpcUrl, safe, calls, signal);
+  });
+
+  // A failed simulation must not block the ones queued after it
+  const tail = simulation.catch(() => undefined);
+  simulationQueues.set(rpcUrl, tail);
+  tail.then(() => {
+    if (simulationQueues.get(rpcUrl) === tail) simulationQueues.delete(rpcUrl);
+  });
+
+  return simulation;
+};
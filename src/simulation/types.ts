@@ -0,0 +1,36 @@
+export interface BalanceChange {
+  // "ETH" for the native asset, otherwise the token contract address
+  asset: string;
+  standard: "native" | "erc20" | "erc721";
+  // Signed net change for the Safe (wei, token units or NFT count)
+  delta: string;
+  tokenIdsIn?: string[];
+  tokenIdsOut?: string[];
+}
+
+export interface AllowanceChange {
+  token: string;
+  spender: string;
+  standard: "erc20" | "erc721" | "operator";
+  // New ERC-20 allowance
+  amount?: string;
+  // ERC-721 single-token approval
+  tokenId?: string;
+  // Operator approval (setApprovalForAll)
+  approved?: boolean;
+}
+
+export interface SimulationResult {
+  // "fork": calls executed in sequence on a snapshot of a local anvil/hardhat
+  // fork. "call": each call replayed with eth_call against latest state.
+  mode: "fork" | "call";
+  reverted: boolean;
+  revertReason?: string;
+  revertedCallIndex?: number | null;
+  balanceChanges: BalanceChange[];
+  allowanceChanges: AllowanceChange[];
+  // Calls that could not be replayed from the Safe (delegatecalls)
+  unsimulatedCalls: (number | null)[];
+  // False when the node exposes no logs (call mode without debug_traceCall)
+  logsAvailable: boolean;
+}
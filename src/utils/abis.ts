@@ -0,0 +1,78 @@
+// Bundled human-readable ABIs used to decode calldata locally.
+// Order matters: when two ABIs share a selector (e.g. ERC-20 and ERC-721
+// `approve`), the fragment registered first wins.
+
+export const ERC20_ABI = [
+  "function transfer(address to, uint256 value)",
+  "function transferFrom(address from, address to, uint256 value)",
+  "function approve(address spender, uint256 value)",
+  "function increaseAllowance(address spender, uint256 addedValue)",
+  "function decreaseAllowance(address spender, uint256 subtractedValue)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+];
+
+// DAI-style permit granting or revoking an unlimited allowance
+export const DAI_PERMIT_ABI = [
+  "function permit(address holder, address spender, uint256 nonce, uint256 expiry, bool allowed, uint8 v, bytes32 r, bytes32 s)",
+];
+
+// Uniswap Permit2 (0x000000000022D473030F116dDEE9F6B43aC78BA3)
+export const PERMIT2_ABI = [
+  "function approve(address token, address spender, uint160 amount, uint48 expiration)",
+  "function permit(address owner, ((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature)",
+  "function permit(address owner, ((address token, uint160 amount, uint48 expiration, uint48 nonce)[] details, address spender, uint256 sigDeadline) permitBatch, bytes signature)",
+];
+
+export const ERC721_ABI = [
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+  "function setApprovalForAll(address operator, bool approved)",
+];
+
+export const ERC1155_ABI = [
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)",
+  "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)",
+];
+
+export const SAFE_ABI = [
+  "function addOwnerWithThreshold(address owner, uint256 _threshold)",
+  "function removeOwner(address prevOwner, address owner, uint256 _threshold)",
+  "function swapOwner(address prevOwner, address oldOwner, address newOwner)",
+  "function changeThreshold(uint256 _threshold)",
+  "function enableModule(address module)",
+  "function disableModule(address prevModule, address module)",
+  "function setGuard(address guard)",
+  "function setFallbackHandler(address handler)",
+  // Safe versions before 1.3.0
+  "function changeMasterCopy(address _masterCopy)",
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)",
+];
+
+export const MULTI_SEND_ABI = ["function multiSend(bytes transactions)"];
+
+export const PROXY_ABI = [
+  "function upgradeTo(address newImplementation)",
+  "function upgradeToAndCall(address newImplementation, bytes data)",
+  // ProxyAdmin of Transparent proxies
+  "function upgrade(address proxy, address implementation)",
+  "function upgradeAndCall(address proxy, address implementation, bytes data)",
+  "function changeAdmin(address newAdmin)",
+  "function initialize()",
+];
+
+export const OWNABLE_ABI = [
+  "function transferOwnership(address newOwner)",
+  "function renounceOwnership()",
+];
+
+export const BUNDLED_ABIS = [
+  ERC20_ABI,
+  DAI_PERMIT_ABI,
+  PERMIT2_ABI,
+  ERC721_ABI,
+  ERC1155_ABI,
+  SAFE_ABI,
+  MULTI_SEND_ABI,
+  PROXY_ABI,
+  OWNABLE_ABI,
+];
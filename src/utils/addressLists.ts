@@ -1,63 +1,426 @@
+import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
 import axios from "axios";
+import { ethers } from "ethers";
 import { Logger } from "./logger";
 
-interface AddressEntry {
+export type AddressListKind = "darklist" | "lightlist";
+
+export interface FeedConfig {
+  name: string;
+  list: AddressListKind;
+  // Exactly one source: a URL, or a file path. Relative paths are resolved
+  // against the app directory, not the working dir.
+  url?: string;
+  path?: string;
+  format: "json" | "csv";
+  // JSON: dotted path to the array of entries; the document root if omitted.
+  // Entries are objects or plain address strings.
+  itemsPath?: string;
+  // JSON field or CSV header holding the address and the comment
+  addressField: string;
+  commentField: string;
+  // CSV column separator
+  delimiter: string;
+}
+
+interface ThreatFeedsConfig {
+  refreshIntervalMs: number;
+  snapshotPath: string;
+  feeds: FeedConfig[];
+}
+
+interface FeedEntry {
   address: string;
   comment?: string;
-  date?: string;
 }
 
+interface FeedState {
+  entries: FeedEntry[];
+  etag?: string;
+  fetchedAt?: string;
+}
+
+// Which feed listed an address, and why
+export interface FeedMatch {
+  feed: string;
+  list: AddressListKind;
+  comment?: string;
+}
+
+const THREAT_FEEDS_CONFIG_PATH =
+  process.env.THREAT_FEEDS_CONFIG_PATH ||
+  path.resolve(process.cwd(), "config/threat-feeds.json");
+
+const DEFAULT_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+
+const validateFeed = (raw: any, index: number): FeedConfig => {
+  if (typeof raw?.name !== "string" || !raw.name) {
+    throw new Error(`feeds[${index}]: name is required`);
+  }
+  if (raw.list !== "darklist" && raw.list !== "lightlist") {
+    throw new Error(`feeds[${index}]: list must be darklist or lightlist`);
+  }
+  if (!raw.url === !raw.path) {
+    throw new Error(`feeds[${index}]: exactly one of url or path is required`);
+  }
+  const format = raw.format ?? "json";
+  if (format !== "json" && format !== "csv") {
+    throw new Error(`feeds[${index}]: unknown format ${format}`);
+  }
+
+  return {
+    name: raw.name,
+    list: raw.list,
+    url: raw.url,
+    path: raw.path ? path.resolve(process.cwd(), raw.path) : undefined,
+    format,
+    itemsPath: raw.itemsPath,
+    addressField: raw.addressField ?? "address",
+    commentField: raw.commentField ?? "comment",
+    delimiter: raw.delimiter ?? ",",
+  };
+};
+
+export const loadThreatFeedsConfig = (
+  configPath = THREAT_FEEDS_CONFIG_PATH
+): ThreatFeedsConfig => {
+  let raw: any = {};
+
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    Logger.error("address-lists", "Failed to read threat feeds config", {
+      path: configPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const feeds = ((raw.feeds ?? []) as unknown[]).flatMap((entry, index) => {
+    try {
+      return [validateFeed(entry, index)];
+    } catch (error) {
+      Logger.error("address-lists", "Ignoring invalid feed", {
+        path: configPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  });
+
+  return {
+    refreshIntervalMs: raw.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS,
+    snapshotPath: path.resolve(
+      process.cwd(),
+      raw.snapshotPath ?? "data/threat-feeds.json"
+    ),
+    feeds,
+  };
+};
+
+// Splits one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string, delimiter: string) => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields.map((value) => value.trim());
+};
+
+const parseCsv = (body: string, feed: FeedConfig) => {
+  const [header, ...rows] = body
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.startsWith("#"));
+  if (!header) return [];
+
+  const columns = splitCsvLine(header, feed.delimiter);
+  const addressColumn = columns.indexOf(feed.addressField);
+  const commentColumn = columns.indexOf(feed.commentField);
+  if (addressColumn < 0) {
+    throw new Error(`CSV has no "${feed.addressField}" column`);
+  }
+
+  return rows.map((row) => {
+    const fields = splitCsvLine(row, feed.delimiter);
+    return {
+      address: fields[addressColumn],
+      comment: commentColumn < 0 ? undefined : fields[commentColumn],
+    };
+  });
+};
+
+const parseJson = (body: string, feed: FeedConfig) => {
+  let items: any = JSON.parse(body);
+  for (const key of feed.itemsPath?.split(".") ?? []) items = items?.[key];
+  if (!Array.isArray(items)) {
+    throw new Error(`No entry array at "${feed.itemsPath ?? "(root)"}"`);
+  }
+
+  return items.map((item) =>
+    typeof item === "string"
+      ? { address: item }
+      : {
+          address: item?.[feed.addressField],
+          comment: item?.[feed.commentField],
+        }
+  );
+};
+
+// Parses a feed body, dropping rows that do not hold a valid address
+export const parseFeed = (body: string, feed: FeedConfig): FeedEntry[] => {
+  const rows =
+    feed.format === "csv" ? parseCsv(body, feed) : parseJson(body, feed);
+
+  return rows.flatMap(({ address, comment }) =>
+    typeof address === "string" && ethers.isAddress(address)
+      ? [
+          {
+            address: address.toLowerCase(),
+            comment: comment ? String(comment) : undefined,
+          },
+        ]
+      : []
+  );
+};
+
+/**
+ * Darklist and lightlist addresses merged from the configured threat feeds.
+ * Feeds are refreshed on a schedule, URLs with ETag revalidation, and the
+ * last good copy of every feed is kept on disk so the agent can start
+ * without network access.
+ */
 export class AddressListService {
   private static instance: AddressListService;
-  private darklist: Set<string> = new Set();
-  private lightlist: Set<string> = new Set();
-  private lastUpdate: Date | null = null;
+  private feeds: Record<string, FeedState> = {};
+  private index = new Map<string, FeedMatch[]>();
+  private loading: Promise<void> | null = null;
+  private refreshing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
 
-  private constructor() {}
+  private constructor(private readonly config: ThreatFeedsConfig) {}
 
   public static getInstance(): AddressListService {
     if (!AddressListService.instance) {
-      AddressListService.instance = new AddressListService();
+      AddressListService.instance = new AddressListService(
+        loadThreatFeedsConfig()
+      );
     }
     return AddressListService.instance;
   }
 
-  public async initialize() {
-    try {
-      const [darklistResponse, lightlistResponse] = await Promise.all([
-        axios.get<AddressEntry[]>(
-          "https://raw.githubusercontent.com/MyEtherWallet/ethereum-lists/master/src/addresses/addresses-darklist.json"
-        ),
-        axios.get<AddressEntry[]>(
-          "https://raw.githubusercontent.com/MyEtherWallet/ethereum-lists/master/src/addresses/addresses-lightlist.json"
-        ),
-      ]);
-
-      this.darklist = new Set(
-        darklistResponse.data.map((entry) => entry.address.toLowerCase())
-      );
-      this.lightlist = new Set(
-        lightlistResponse.data.map((entry) => entry.address.toLowerCase())
-      );
-      this.lastUpdate = new Date();
+  /**
+   * Loads the disk snapshot. Local feed files missing from it are read
+   * before this resolves; missing URL feeds are fetched in the background
+   * so an unreachable feed never holds up an analysis.
+   */
+  public load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const snapshot = JSON.parse(
+            await fsp.readFile(this.config.snapshotPath, "utf8")
+          );
+          this.feeds = snapshot.feeds ?? {};
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            Logger.warn("address-lists", "Ignoring unreadable snapshot", {
+              path: this.config.snapshotPath,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
 
-      Logger.info("address-lists", "Successfully initialized address lists", {
-        darklistSize: this.darklist.size,
-        lightlistSize: this.lightlist.size,
-      });
-    } catch (error) {
-      Logger.error("address-lists", "Failed to initialize address lists", {
-        error: error instanceof Error ? error.message : String(error),
+        const missing = this.config.feeds.filter(
+          (feed) => !this.feeds[feed.name]
+        );
+        const localFeeds = missing.filter((feed) => feed.path);
+        const remoteFeeds = missing.filter((feed) => feed.url);
+
+        if (localFeeds.length) {
+          await this.refresh(localFeeds);
+        } else {
+          this.rebuildIndex();
+        }
+        if (remoteFeeds.length) {
+          this.refresh(remoteFeeds).catch(() => undefined);
+        }
+      })();
+      // Let a failed load be retried on the next call
+      this.loading.catch(() => (this.loading = null));
+    }
+    return this.loading;
+  }
+
+  // Refreshes every feed now and then on the configured interval
+  public async start(): Promise<void> {
+    await this.load();
+    // A background fetch started by load() would swallow the full refresh
+    await this.refreshing;
+    await this.refresh();
+
+    this.timer = setInterval(() => {
+      this.refresh().catch(() => undefined);
+    }, this.config.refreshIntervalMs);
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // A feed that fails to refresh keeps serving its last good copy
+  public refresh(feeds = this.config.feeds): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        const results = await Promise.allSettled(
+          feeds.map((feed) => this.refreshFeed(feed))
+        );
+
+        results.forEach((result, i) => {
+          if (result.status === "rejected") {
+            Logger.error("address-lists", "Failed to refresh threat feed", {
+              feed: feeds[i].name,
+              error:
+                result.reason instanceof Error
+                  ? result.reason.message
+                  : String(result.reason),
+            });
+          }
+        });
+
+        this.rebuildIndex();
+        await this.persist().catch((error) => {
+          Logger.error("address-lists", "Failed to save threat feed snapshot", {
+            path: this.config.snapshotPath,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      })().finally(() => (this.refreshing = null));
+    }
+    return this.refreshing;
+  }
+
+  private async refreshFeed(feed: FeedConfig) {
+    const previous = this.feeds[feed.name];
+    let body: string;
+    let etag: string | undefined;
+
+    if (feed.path) {
+      try {
+        body = await fsp.readFile(feed.path, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          throw new Error(`Feed file not found at ${feed.path}`);
+        }
+        throw error;
+      }
+    } else {
+      const response = await axios.get<string>(feed.url!, {
+        responseType: "text",
+        // Keep the raw body; parsing depends on the feed format
+        transformResponse: (data) => data,
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: previous?.etag ? { "If-None-Match": previous.etag } : {},
+        validateStatus: (status) => status === 200 || status === 304,
       });
-      throw error;
+
+      if (response.status === 304 && previous) {
+        this.feeds[feed.name] = {
+          ...previous,
+          fetchedAt: new Date().toISOString(),
+        };
+        return;
+      }
+
+      body = response.data;
+      etag = response.headers.etag;
     }
+
+    const entries = parseFeed(body, feed);
+    // An empty feed is far more likely broken than cleared
+    if (!entries.length) throw new Error("Feed has no valid addresses");
+
+    this.feeds[feed.name] = {
+      entries,
+      etag,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    Logger.info("address-lists", "Threat feed refreshed", {
+      feed: feed.name,
+      list: feed.list,
+      entries: entries.length,
+    });
+  }
+
+  private rebuildIndex() {
+    const index = new Map<string, FeedMatch[]>();
+
+    for (const feed of this.config.feeds) {
+      for (const entry of this.feeds[feed.name]?.entries ?? []) {
+        const matches = index.get(entry.address) ?? [];
+        matches.push({
+          feed: feed.name,
+          list: feed.list,
+          comment: entry.comment,
+        });
+        index.set(entry.address, matches);
+      }
+    }
+
+    this.index = index;
+  }
+
+  private persist(): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const { snapshotPath } = this.config;
+      await fsp.mkdir(path.dirname(snapshotPath), { recursive: true });
+      const tmpPath = `${snapshotPath}.tmp`;
+      await fsp.writeFile(tmpPath, JSON.stringify({ feeds: this.feeds }));
+      await fsp.rename(tmpPath, snapshotPath);
+    });
+    // A failed write must not block the ones queued after it
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  public getMatches(address: string, list?: AddressListKind): FeedMatch[] {
+    return (this.index.get(address.toLowerCase()) ?? []).filter(
+      (match) => !list || match.list === list
+    );
   }
 
   public isDarklisted(address: string): boolean {
-    return this.darklist.has(address.toLowerCase());
+    return this.getMatches(address, "darklist").length > 0;
   }
 
   public isLightlisted(address: string): boolean {
-    return this.lightlist.has(address.toLowerCase());
+    return this.getMatches(address, "lightlist").length > 0;
   }
 }
@@ -0,0 +1,136 @@
+import { DecodedValue, getParam } from "./calldata";
+import { TransactionCall } from "./multiSend";
+
+export type ApprovalKind =
+  | "approve"
+  | "increaseAllowance"
+  | "setApprovalForAll"
+  | "permit"
+  | "permit2-approve"
+  | "permit2-permit";
+
+// A permission to move tokens granted by one call
+export interface Approval {
+  kind: ApprovalKind;
+  token: string;
+  spender: string;
+  // Holder granting the approval; the Safe unless a signed permit is relayed
+  owner: string;
+  // Allowance granted (or added, for increaseAllowance); undefined when
+  // the approval covers every token (setApprovalForAll, DAI permit)
+  amount?: bigint;
+  // Unix time after which the approval lapses, where the standard has one
+  expiration?: number;
+  revoke: boolean;
+}
+
+type Permit2Details = { token: string; amount: string; expiration: string };
+
+const str = (value: DecodedValue | undefined) => String(value);
+
+const permit2Approvals = (
+  owner: string,
+  permit: { [name: string]: DecodedValue }
+): Approval[] => {
+  const details = (Array.isArray(permit.details)
+    ? permit.details
+    : [permit.details]) as unknown as Permit2Details[];
+
+  return details.map((detail) => ({
+    kind: "permit2-permit",
+    token: detail.token,
+    spender: str(permit.spender),
+    owner,
+    amount: BigInt(detail.amount),
+    expiration: Number(detail.expiration),
+    revoke: BigInt(detail.amount) === 0n,
+  }));
+};
+
+/**
+ * Approvals granted by a call. ERC-20 and NFT approvals act on the called
+ * token (`call.to`); Permit2 names the token in its arguments.
+ */
+export const extractApprovals = (
+  call: TransactionCall,
+  safe: string
+): Approval[] => {
+  const { decoded } = call;
+  if (!decoded) return [];
+
+  switch (decoded.signature) {
+    case "approve(address,uint256)":
+    case "increaseAllowance(address,uint256)": {
+      const amount = BigInt(str(getParam(decoded, "value", 1)));
+      return [
+        {
+          kind: decoded.method as "approve" | "increaseAllowance",
+          token: call.to,
+          spender: str(getParam(decoded, "spender", 0)),
+          owner: safe,
+          amount,
+          revoke: decoded.method === "approve" && amount === 0n,
+        },
+      ];
+    }
+    case "setApprovalForAll(address,bool)":
+      return [
+        {
+          kind: "setApprovalForAll",
+          token: call.to,
+          spender: str(getParam(decoded, "operator", 0)),
+          owner: safe,
+          revoke: getParam(decoded, "approved", 1) === false,
+        },
+      ];
+    // EIP-2612
+    case "permit(address,address,uint256,uint256,uint8,bytes32,bytes32)": {
+      const amount = BigInt(str(getParam(decoded, "value", 2)));
+      return [
+        {
+          kind: "permit",
+          token: call.to,
+          spender: str(getParam(decoded, "spender", 1)),
+          owner: str(getParam(decoded, "owner", 0)),
+          amount,
+          expiration: Number(getParam(decoded, "deadline", 3)),
+          revoke: amount === 0n,
+        },
+      ];
+    }
+    // DAI
+    case "permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)":
+      return [
+        {
+          kind: "permit",
+          token: call.to,
+          spender: str(getParam(decoded, "spender", 1)),
+          owner: str(getParam(decoded, "holder", 0)),
+          expiration: Number(getParam(decoded, "expiry", 3)),
+          revoke: getParam(decoded, "allowed", 4) === false,
+        },
+      ];
+    case "approve(address,address,uint160,uint48)": {
+      const amount = BigInt(str(getParam(decoded, "amount", 2)));
+      return [
+        {
+          kind: "permit2-approve",
+          token: str(getParam(decoded, "token", 0)),
+          spender: str(getParam(decoded, "spender", 1)),
+          owner: safe,
+          amount,
+          expiration: Number(getParam(decoded, "expiration", 3)),
+          revoke: amount === 0n,
+        },
+      ];
+    }
+    case "permit(address,((address,uint160,uint48,uint48),address,uint256),bytes)":
+    case "permit(address,((address,uint160,uint48,uint48)[],address,uint256),bytes)":
+      return permit2Approvals(
+        str(getParam(decoded, "owner", 0)),
+        getParam(decoded, "permitSingle", 1) as { [name: string]: DecodedValue }
+      );
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,166 @@
+import { ethers } from "ethers";
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { BUNDLED_ABIS } from "./abis";
+import signatureDatabase from "./signatures.json";
+
+export type DecodedValue =
+  string | boolean | DecodedValue[] | { [name: string]: DecodedValue };
+
+export interface DecodedParam {
+  name: string;
+  type: string;
+  value: DecodedValue;
+}
+
+export interface DecodedCall {
+  selector: string;
+  method: string;
+  signature: string;
+  params: DecodedParam[];
+  // Where the decoding came from: a bundled ABI (named params), the local
+  // signature database (positional params) or the Safe Transaction Service.
+  source: "abi" | "signature" | "transaction-service";
+}
+
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+const buildFragmentIndex = () => {
+  const index = new Map<
+    string,
+    { fragment: ethers.FunctionFragment; source: DecodedCall["source"] }[]
+  >();
+
+  const register = (
+    fragment: ethers.FunctionFragment,
+    source: DecodedCall["source"]
+  ) => {
+    const entries = index.get(fragment.selector) ?? [];
+    entries.push({ fragment, source });
+    index.set(fragment.selector, entries);
+  };
+
+  for (const abi of BUNDLED_ABIS) {
+    for (const fragment of new ethers.Interface(abi).fragments) {
+      if (fragment instanceof ethers.FunctionFragment) {
+        register(fragment, "abi");
+      }
+    }
+  }
+
+  for (const signatures of Object.values(
+    signatureDatabase as Record<string, string[]>
+  )) {
+    for (const signature of signatures) {
+      register(ethers.FunctionFragment.from(signature), "signature");
+    }
+  }
+
+  return index;
+};
+
+const fragmentIndex = buildFragmentIndex();
+
+const formatValue = (param: ethers.ParamType, value: any): DecodedValue => {
+  if (param.isArray()) {
+    return Array.from(value as ethers.Result).map((item) =>
+      formatValue(param.arrayChildren, item)
+    );
+  }
+
+  if (param.isTuple()) {
+    return Object.fromEntries(
+      param.components.map((component, i) => [
+        component.name || `${i}`,
+        formatValue(component, value[i]),
+      ])
+    );
+  }
+
+  if (param.baseType === "address") return ethers.getAddress(value);
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "boolean") return value;
+  return String(value);
+};
+
+const formatParams = (
+  inputs: readonly ethers.ParamType[],
+  values: ethers.Result
+): DecodedParam[] =>
+  inputs.map((input, i) => ({
+    name: input.name || `arg${i}`,
+    type: input.format(),
+    value: formatValue(input, values[i]),
+  }));
+
+export const getSelector = (data?: string): string | null => {
+  if (!data || data.length < 10) return null;
+  return data.slice(0, 10).toLowerCase();
+};
+
+/**
+ * Decode raw calldata against the bundled ABIs, then the local signature
+ * database. Returns null when the selector is unknown or no candidate
+ * fragment decodes the arguments cleanly.
+ */
+export const decodeCalldata = (data?: string): DecodedCall | null => {
+  const selector = getSelector(data);
+  if (!selector || !data) return null;
+
+  for (const { fragment, source } of fragmentIndex.get(selector) ?? []) {
+    try {
+      const values = abiCoder.decode(fragment.inputs, `0x${data.slice(10)}`);
+
+      return {
+        selector,
+        method: fragment.name,
+        signature: fragment.format("sighash"),
+        params: formatParams(fragment.inputs, values),
+        source,
+      };
+    } catch {
+      // Selector collision or malformed arguments - try the next candidate
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Decode a Safe transaction's calldata, falling back to the Safe Transaction
+ * Service's `dataDecoded` when the selector is not known locally.
+ */
+export const decodeTransactionData = (
+  tx: Pick<SafeMultisigTransactionResponse, "data" | "dataDecoded">
+): DecodedCall | null => {
+  const decoded = decodeCalldata(tx.data);
+  if (decoded) return decoded;
+
+  const selector = getSelector(tx.data);
+  if (!selector || !tx.dataDecoded) return null;
+
+  const types = tx.dataDecoded.parameters.map((param) => param.type);
+
+  return {
+    selector,
+    method: tx.dataDecoded.method,
+    signature: `${tx.dataDecoded.method}(${types.join(",")})`,
+    params: tx.dataDecoded.parameters.map((param) => ({
+      name: param.name,
+      type: param.type,
+      value: param.value,
+    })),
+    source: "transaction-service",
+  };
+};
+
+/**
+ * Look up a decoded parameter by name, falling back to its position for
+ * calls decoded from the signature database (which carry no names).
+ */
+export const getParam = (
+  call: DecodedCall,
+  name: string,
+  index: number
+): DecodedValue | undefined =>
+  (call.params.find((param) => param.name === name) ?? call.params[index])
+    ?.value;
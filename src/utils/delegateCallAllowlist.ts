@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+import { Logger } from "./logger";
+
+// chainId -> (checksummed or lowercase address -> library label)
+type AllowlistFile = Record<string, Record<string, string>>;
+
+const ALLOWLIST_PATH =
+  process.env.DELEGATECALL_ALLOWLIST_PATH ||
+  path.resolve(process.cwd(), "config/delegatecall-allowlist.json");
+
+let allowlist: Map<string, Map<string, string>> | null = null;
+
+const loadAllowlist = (): Map<string, Map<string, string>> => {
+  try {
+    const file: AllowlistFile = JSON.parse(
+      fs.readFileSync(ALLOWLIST_PATH, "utf8")
+    );
+
+    return new Map(
+      Object.entries(file).map(([chainId, entries]) => [
+        chainId,
+        new Map(
+          Object.entries(entries).map(([address, label]) => [
+            address.toLowerCase(),
+            label,
+          ])
+        ),
+      ])
+    );
+  } catch (error) {
+    // Without an allowlist every delegatecall is treated as untrusted
+    Logger.error("security", "Failed to load delegatecall allowlist", {
+      path: ALLOWLIST_PATH,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new Map();
+  }
+};
+
+/**
+ * Returns the label of an allowlisted delegatecall target on the given
+ * chain, or undefined if the target is not allowlisted there.
+ */
+export const getAllowlistedDelegate = (
+  chainId: bigint | number | string,
+  address: string
+): string | undefined => {
+  if (!allowlist) allowlist = loadAllowlist();
+
+  return allowlist.get(chainId.toString())?.get(address.toLowerCase());
+};
@@ -0,0 +1,158 @@
+import { ethers } from "ethers";
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { DecodedCall, decodeCalldata, decodeTransactionData } from "./calldata";
+
+// A single call executed by the Safe: either the transaction itself or one
+// of the calls packed inside a MultiSend / MultiSendCallOnly batch.
+export interface TransactionCall {
+  // Position in the flattened batch, null for a non-batched transaction
+  index: number | null;
+  operation: number;
+  to: string;
+  value: string;
+  data: string;
+  decoded: DecodedCall | null;
+}
+
+// Nested batches beyond this depth are rejected rather than unpacked
+const MAX_BATCH_DEPTH = 3;
+
+// operation (1) + to (20) + value (32) + data length (32)
+const PACKED_HEADER_LENGTH = 85;
+
+const OPERATION_DELEGATECALL = 1;
+
+// Safe's MultiSend and MultiSendCallOnly deployments, which sit at the same
+// address on every chain. A multiSend call anywhere else is an ordinary call.
+const MULTI_SEND_DEPLOYMENTS = new Set(
+  [
+    "0x8D29bE29923b68abfDD21e541b9374737B49cdAD", // MultiSend 1.1.1
+    "0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761", // MultiSend 1.3.0
+    "0x998739BFdAAdde7C933B942a68053933098f9EDa", // MultiSend 1.3.0 (eip155)
+    "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D", // MultiSendCallOnly 1.3.0
+    "0xA1dabEF33b3B82c7814B6D82A79e50F4AC44102B", // MultiSendCallOnly 1.3.0 (eip155)
+    "0x38869bf66a61cF6bDB996A6aE40D5853Fd43B526", // MultiSend 1.4.1
+    "0x9641d764fc13c8B624c04430C7356C1C7C8102e2", // MultiSendCallOnly 1.4.1
+  ].map((address) => address.toLowerCase())
+);
+
+/**
+ * Decode the packed `transactions` argument of MultiSend / MultiSendCallOnly
+ * (abi.encodePacked(operation, to, value, dataLength, data) per call).
+ */
+export const decodeMultiSendTransactions = (
+  transactions: string
+): Omit<TransactionCall, "index" | "decoded">[] => {
+  const bytes = ethers.getBytes(transactions);
+  const calls: Omit<TransactionCall, "index" | "decoded">[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    if (offset + PACKED_HEADER_LENGTH > bytes.length) {
+      throw new Error(`Malformed MultiSend payload at byte ${offset}`);
+    }
+
+    const operation = bytes[offset];
+    const to = ethers.getAddress(
+      ethers.hexlify(bytes.slice(offset + 1, offset + 21))
+    );
+    const value = ethers.toBigInt(bytes.slice(offset + 21, offset + 53));
+    const dataLength = Number(
+      ethers.toBigInt(bytes.slice(offset + 53, offset + PACKED_HEADER_LENGTH))
+    );
+    const dataStart = offset + PACKED_HEADER_LENGTH;
+
+    if (operation > 1 || dataStart + dataLength > bytes.length) {
+      throw new Error(`Malformed MultiSend payload at byte ${offset}`);
+    }
+
+    calls.push({
+      operation,
+      to,
+      value: value.toString(),
+      data: ethers.hexlify(bytes.slice(dataStart, dataStart + dataLength)),
+    });
+
+    offset = dataStart + dataLength;
+  }
+
+  return calls;
+};
+
+const isMultiSend = (decoded: DecodedCall | null) =>
+  decoded?.method === "multiSend" &&
+  decoded.params.length === 1 &&
+  decoded.params[0].type === "bytes";
+
+/**
+ * Whether the Safe executes this call as a batch: a delegatecall with
+ * multiSend(bytes) calldata into a known MultiSend deployment.
+ */
+export const isBatchCall = ({
+  operation,
+  to,
+  decoded,
+}: Pick<TransactionCall, "operation" | "to" | "decoded">) =>
+  operation === OPERATION_DELEGATECALL &&
+  MULTI_SEND_DEPLOYMENTS.has(to.toLowerCase()) &&
+  isMultiSend(decoded);
+
+export const isBatch = (calls: TransactionCall[]) =>
+  calls.length !== 1 || calls[0].index !== null;
+
+/**
+ * The Safe transaction itself as a call, without unpacking any batch.
+ */
+export const toTransactionCall = (
+  tx: SafeMultisigTransactionResponse
+): TransactionCall => ({
+  index: null,
+  operation: tx.operation,
+  to: tx.to,
+  value: tx.value,
+  data: tx.data ?? "0x",
+  decoded: decodeTransactionData(tx),
+});
+
+/**
+ * Flatten a Safe transaction into the calls it will actually execute,
+ * recursively unpacking MultiSend batches. Nested batch calls are kept in
+ * the list ahead of their own inner calls, and a batch that carries value
+ * keeps its own call at the head of the list so the value is still checked.
+ * Throws on malformed batches so that a payload we cannot read is never
+ * treated as safe.
+ */
+export const unpackTransaction = (
+  tx: SafeMultisigTransactionResponse
+): TransactionCall[] => {
+  const outerCall = toTransactionCall(tx);
+  const { decoded } = outerCall;
+
+  if (!isBatchCall(outerCall)) {
+    return [outerCall];
+  }
+
+  const calls: TransactionCall[] = [];
+
+  const unpack = (transactions: string, depth: number) => {
+    if (depth > MAX_BATCH_DEPTH) {
+      throw new Error(
+        `MultiSend batches nested deeper than ${MAX_BATCH_DEPTH}`
+      );
+    }
+
+    for (const call of decodeMultiSendTransactions(transactions)) {
+      const innerDecoded = decodeCalldata(call.data);
+
+      calls.push({ ...call, index: calls.length, decoded: innerDecoded });
+
+      if (isBatchCall({ ...call, decoded: innerDecoded })) {
+        unpack(innerDecoded!.params[0].value as string, depth + 1);
+      }
+    }
+  };
+
+  unpack(decoded!.params[0].value as string, 1);
+
+  return BigInt(outerCall.value) === 0n ? calls : [outerCall, ...calls];
+};
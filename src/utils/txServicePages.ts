@@ -0,0 +1,42 @@
+import axios from "axios";
+import { ListResponse } from "@safe-global/types-kit";
+import { Logger } from "./logger";
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Guards against a service that keeps handing out `next` links
+const MAX_PAGES = 100;
+
+/**
+ * Follows the Transaction Service's `next` links from a first page, newest
+ * items first, until a page holds an item for which `reachedEnd` is true or
+ * the list runs out. Returns the items of every page read.
+ */
+export const collectPages = async <T>(
+  firstPage: ListResponse<T>,
+  reachedEnd: (item: T) => boolean
+): Promise<T[]> => {
+  const items = [...firstPage.results];
+  let next = firstPage.next;
+  let pages = 1;
+
+  while (next && !items.some(reachedEnd)) {
+    if (pages >= MAX_PAGES) {
+      Logger.warn("tx-service", "Stopped following pages", {
+        pages,
+        next,
+      });
+      break;
+    }
+
+    const { data } = await axios.get<ListResponse<T>>(next, {
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: { Accept: "application/json" },
+    });
+    items.push(...data.results);
+    next = data.next;
+    pages++;
+  }
+
+  return items;
+};
@@ -0,0 +1,89 @@
+import { ethers } from "ethers";
+import { NATIVE } from "../pricing/types";
+import { LedgerEntry, VelocityLimit } from "./types";
+
+const WINDOW_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// The ledger keeps outflows this long, so no window may be longer
+export const MAX_WINDOW_MS = 30 * WINDOW_UNITS_MS.d;
+
+export const parseWindow = (window: unknown): number => {
+  const match = /^(\d+)([mhd])$/.exec(String(window));
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`invalid window ${window}, expected e.g. 1h, 24h or 7d`);
+  }
+
+  const windowMs = Number(match[1]) * WINDOW_UNITS_MS[match[2]];
+  if (windowMs > MAX_WINDOW_MS) {
+    throw new Error(`window ${window} is longer than 30d`);
+  }
+  return windowMs;
+};
+
+export const validateVelocityLimits = (raw: unknown): VelocityLimit[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) throw new Error("velocityLimits must be a list");
+
+  return raw.map((limit: any, index) => {
+    const name = `velocityLimits[${index}]`;
+
+    if (!["safe", "token", "destination"].includes(limit?.scope)) {
+      throw new Error(`${name}: scope must be safe, token or destination`);
+    }
+    if (limit.maxUsd === undefined && limit.maxAmount === undefined) {
+      throw new Error(`${name}: maxUsd or maxAmount is required`);
+    }
+    if (limit.maxAmount !== undefined && !limit.token) {
+      throw new Error(`${name}: maxAmount requires a token`);
+    }
+    if (
+      limit.token !== undefined &&
+      limit.token !== NATIVE &&
+      !ethers.isAddress(limit.token)
+    ) {
+      throw new Error(`${name}: token must be an address or "native"`);
+    }
+
+    let windowMs: number;
+    try {
+      windowMs = parseWindow(limit.window);
+    } catch (error) {
+      throw new Error(
+        `${name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return {
+      window: limit.window,
+      windowMs,
+      scope: limit.scope,
+      token: limit.token?.toLowerCase(),
+      maxUsd: limit.maxUsd,
+      maxAmount: limit.maxAmount,
+    };
+  });
+};
+
+// Group key of an outflow under a limit's scope
+export const scopeKey = (
+  limit: VelocityLimit,
+  entry: Pick<LedgerEntry, "token" | "recipient">
+) => {
+  switch (limit.scope) {
+    case "safe":
+      return "safe";
+    case "token":
+      return entry.token.toLowerCase();
+    case "destination":
+      return entry.recipient.toLowerCase();
+  }
+};
+
+export const appliesTo = (
+  limit: VelocityLimit,
+  entry: Pick<LedgerEntry, "token">
+) => !limit.token || limit.token === entry.token.toLowerCase();
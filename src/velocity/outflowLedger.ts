@@ -0,0 +1,212 @@
+import fs from "fs/promises";
+import path from "path";
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { Logger } from "../utils/logger";
+import { TransactionCall, unpackTransaction } from "../utils/multiSend";
+import { SafeConfig, safeKey } from "../safes/registry";
+import { Outflow, PriceService } from "../pricing/priceService";
+import { MAX_WINDOW_MS } from "./limits";
+import { LedgerEntry } from "./types";
+
+const VELOCITY_LEDGER_PATH =
+  process.env.VELOCITY_LEDGER_PATH ||
+  path.resolve(process.cwd(), "data/outflows.json");
+
+const toEntries = (
+  safeTxHash: string,
+  outflows: Outflow[],
+  source: LedgerEntry["source"],
+  timestamp: string,
+  mode?: LedgerEntry["mode"]
+): LedgerEntry[] =>
+  outflows.map((outflow) => ({
+    safeTxHash,
+    token: outflow.token,
+    recipient: outflow.recipient,
+    amount: outflow.amount,
+    units: outflow.units,
+    usd: outflow.usd,
+    timestamp,
+    source,
+    mode,
+  }));
+
+/**
+ * Outflows of each Safe over the last 30 days, from executed history and
+ * from transactions the agent signed, for enforcing velocity limits.
+ */
+export class OutflowLedger {
+  private static instance: OutflowLedger;
+  private ledgers: Record<string, LedgerEntry[]> = {};
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly filePath: string) {}
+
+  public static getInstance(): OutflowLedger {
+    if (!OutflowLedger.instance) {
+      OutflowLedger.instance = new OutflowLedger(VELOCITY_LEDGER_PATH);
+    }
+    return OutflowLedger.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          this.ledgers = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+      })();
+      // Let a failed load be retried on the next call
+      this.loading.catch(() => (this.loading = null));
+    }
+    return this.loading;
+  }
+
+  // Writes are serialized and go through a temp file + rename so the file
+  // is never left half-written
+  private persist(): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(this.ledgers, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    // A failed write must not block the ones queued after it
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  // Replaces the entries of each given transaction, then drops expired ones
+  private update(
+    safeConfig: SafeConfig,
+    byTransaction: Map<string, LedgerEntry[]>
+  ) {
+    const cutoff = Date.now() - MAX_WINDOW_MS;
+    const key = safeKey(safeConfig);
+
+    this.ledgers[key] = [
+      ...(this.ledgers[key] ?? []).filter(
+        (entry) => !byTransaction.has(entry.safeTxHash)
+      ),
+      ...[...byTransaction.values()].flat(),
+    ].filter((entry) => Date.parse(entry.timestamp) >= cutoff);
+  }
+
+  // Shadow entries are only returned to shadow runs, since live limits
+  // must not count signatures that were never made
+  public async entriesSince(
+    safeConfig: SafeConfig,
+    sinceMs: number,
+    signingMode: "live" | "shadow" = "live"
+  ): Promise<LedgerEntry[]> {
+    await this.load();
+
+    const cutoff = Date.now() - sinceMs;
+    return (this.ledgers[safeKey(safeConfig)] ?? []).filter(
+      (entry) =>
+        Date.parse(entry.timestamp) >= cutoff &&
+        (entry.mode !== "shadow" || signingMode === "shadow")
+    );
+  }
+
+  // Counts a transaction the agent just confirmed, or would have confirmed
+  // in shadow mode, until it shows up executed
+  public async recordSigned(
+    safeConfig: SafeConfig,
+    tx: SafeMultisigTransactionResponse,
+    mode: "live" | "shadow" = "live"
+  ): Promise<void> {
+    await this.load();
+
+    const key = safeKey(safeConfig);
+    const executed = (this.ledgers[key] ?? []).some(
+      (entry) =>
+        entry.safeTxHash === tx.safeTxHash && entry.source === "history"
+    );
+    if (executed) return;
+
+    const outflows = await this.valueTransaction(safeConfig, tx);
+    this.update(
+      safeConfig,
+      new Map([
+        [
+          tx.safeTxHash,
+          toEntries(
+            tx.safeTxHash,
+            outflows,
+            "agent",
+            new Date().toISOString(),
+            mode
+          ),
+        ],
+      ])
+    );
+    await this.persist();
+  }
+
+  /**
+   * Count executed transactions of the last 30 days not yet in the ledger.
+   * Outflows are valued at today's prices.
+   */
+  public async syncFromHistory(
+    safeConfig: SafeConfig,
+    transactions: SafeMultisigTransactionResponse[]
+  ): Promise<void> {
+    await this.load();
+
+    const cutoff = Date.now() - MAX_WINDOW_MS;
+    const known = new Set(
+      (this.ledgers[safeKey(safeConfig)] ?? [])
+        .filter((entry) => entry.source === "history")
+        .map((entry) => entry.safeTxHash)
+    );
+    const executed = transactions.filter(
+      (tx) =>
+        tx.isExecuted &&
+        tx.isSuccessful !== false &&
+        tx.executionDate &&
+        Date.parse(tx.executionDate) >= cutoff &&
+        !known.has(tx.safeTxHash)
+    );
+
+    const byTransaction = new Map<string, LedgerEntry[]>();
+    for (const tx of executed) {
+      const outflows = await this.valueTransaction(safeConfig, tx);
+      byTransaction.set(
+        tx.safeTxHash,
+        toEntries(tx.safeTxHash, outflows, "history", tx.executionDate!)
+      );
+    }
+
+    this.update(safeConfig, byTransaction);
+    await this.persist();
+
+    if (executed.length) {
+      Logger.info("velocity", "Synced outflow ledger from history", {
+        safe: safeConfig.name,
+        transactions: executed.length,
+      });
+    }
+  }
+
+  private async valueTransaction(
+    safeConfig: SafeConfig,
+    tx: SafeMultisigTransactionResponse
+  ): Promise<Outflow[]> {
+    let calls: TransactionCall[];
+    try {
+      calls = unpackTransaction(tx);
+    } catch {
+      return [];
+    }
+
+    const prices = PriceService.getInstance();
+    const outflows = await Promise.all(
+      calls.map((call) => prices.valueOutflows(safeConfig, call, tx.safe))
+    );
+    return outflows.flat();
+  }
+}
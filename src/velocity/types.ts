@@ -0,0 +1,33 @@
+// What a velocity limit sums over: every outflow of the Safe, each token
+// separately, or each destination separately
+export type VelocityScope = "safe" | "token" | "destination";
+
+export interface VelocityLimit {
+  // Rolling window such as "1h", "24h" or "7d"
+  window: string;
+  windowMs: number;
+  scope: VelocityScope;
+  // Only count outflows of this token (address or "native")
+  token?: string;
+  // Cap on the USD value of the outflows in the window
+  maxUsd?: number;
+  // Cap in whole tokens; requires `token`
+  maxAmount?: number;
+}
+
+// One outflow counted against the limits
+export interface LedgerEntry {
+  safeTxHash: string;
+  token: string;
+  recipient: string;
+  amount: string;
+  units?: number;
+  usd?: number;
+  // Execution time for history, signing time for the agent's signatures
+  timestamp: string;
+  // Executed on-chain, or signed by the agent and possibly still pending
+  source: "history" | "agent";
+  // Set on agent entries; "shadow" ones were only would-sign decisions and
+  // count in shadow runs alone
+  mode?: "live" | "shadow";
+}
@@ -0,0 +1,77 @@
+import fs from "fs/promises";
+import path from "path";
+import { Logger } from "../utils/logger";
+
+export interface ProcessedEntry {
+  // "in-progress" entries found at startup were interrupted mid-pipeline
+  // and are picked up again on the next poll
+  status: "in-progress" | "done";
+  // Failed processing attempts, and when the next one may start
+  attempts?: number;
+  retryAt?: string;
+  safe: string;
+  chainId: string;
+  decision?: string;
+  action?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+/**
+ * Disk-backed record of the safeTxHashes the watcher has handled, so that a
+ * restart neither re-analyzes nor skips a transaction.
+ */
+export class ProcessedTransactionStore {
+  private entries: Record<string, ProcessedEntry> = {};
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load() {
+    try {
+      this.entries = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      this.entries = {};
+    }
+
+    const interrupted = Object.values(this.entries).filter(
+      (entry) => entry.status === "in-progress"
+    ).length;
+
+    Logger.info("watcher", "Loaded processed transactions", {
+      path: this.filePath,
+      total: Object.keys(this.entries).length,
+      interrupted,
+    });
+  }
+
+  get(safeTxHash: string): ProcessedEntry | undefined {
+    return this.entries[safeTxHash];
+  }
+
+  async set(
+    safeTxHash: string,
+    entry: Omit<ProcessedEntry, "updatedAt">
+  ): Promise<void> {
+    this.entries[safeTxHash] = {
+      ...entry,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.persist();
+  }
+
+  // Writes are serialized and go through a temp file + rename so the state
+  // file is never left half-written
+  private persist(): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(this.entries, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    // A failed write must not block the ones queued after it
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
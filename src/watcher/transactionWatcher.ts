@@ -0,0 +1,306 @@
+import fs from "fs";
+import path from "path";
+import { SafeMultisigTransactionResponse } from "@safe-global/types-kit";
+import { Logger } from "../utils/logger";
+import {
+  createSafeApiKit,
+  getSafeSigner,
+  processTransaction,
+  SIGNING_MODE,
+} from "../pipeline";
+import { getSafes, SafeConfig, safeKey } from "../safes/registry";
+import { ReviewQueue } from "../reviews/reviewQueue";
+import { NotificationDispatcher } from "../notifications/dispatcher";
+import { PolicyDecision } from "../policy/types";
+import { ProcessedTransactionStore } from "./processedStore";
+
+export interface WatcherConfig {
+  enabled: boolean;
+  intervalMs: number;
+  maxBackoffMs: number;
+  // Failed attempts at processing one transaction before it is handed to
+  // the review queue
+  maxAttempts: number;
+  statePath: string;
+}
+
+const WATCHER_CONFIG_PATH =
+  process.env.WATCHER_CONFIG_PATH ||
+  path.resolve(process.cwd(), "config/watcher.json");
+
+const DEFAULT_WATCHER_CONFIG: WatcherConfig = {
+  enabled: false,
+  intervalMs: 30000,
+  maxBackoffMs: 600000,
+  maxAttempts: 5,
+  statePath: "data/watcher-state.json",
+};
+
+export const loadWatcherConfig = (): WatcherConfig => {
+  try {
+    return {
+      ...DEFAULT_WATCHER_CONFIG,
+      ...JSON.parse(fs.readFileSync(WATCHER_CONFIG_PATH, "utf8")),
+    };
+  } catch (error) {
+    Logger.warn("watcher", "Using default watcher configuration", {
+      path: WATCHER_CONFIG_PATH,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return DEFAULT_WATCHER_CONFIG;
+  }
+};
+
+/**
+ * Polls the Safe Transaction Service for each configured Safe and runs every
+ * new pending transaction through the analyze -> sign pipeline once.
+ */
+export class TransactionWatcher {
+  private readonly store: ProcessedTransactionStore;
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly failures = new Map<string, number>();
+  private running = false;
+
+  constructor(private readonly config: WatcherConfig) {
+    this.store = new ProcessedTransactionStore(
+      path.resolve(process.cwd(), config.statePath)
+    );
+  }
+
+  async start(): Promise<void> {
+    await this.store.load();
+    this.running = true;
+
+    const safes = getSafes();
+    for (const safe of safes) {
+      this.schedule(safe, 0);
+    }
+
+    Logger.info("watcher", "Transaction watcher started", {
+      safes: safes.map((safe) => safe.name),
+      intervalMs: this.config.intervalMs,
+      signingMode: SIGNING_MODE,
+    });
+  }
+
+  stop(): void {
+    this.running = false;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private backoffMs(failures: number) {
+    return Math.min(
+      this.config.intervalMs * 2 ** failures,
+      this.config.maxBackoffMs
+    );
+  }
+
+  private schedule(safe: SafeConfig, delayMs: number) {
+    if (!this.running) return;
+
+    this.timers.set(
+      safeKey(safe),
+      setTimeout(() => this.tick(safe), delayMs)
+    );
+  }
+
+  private async tick(safe: SafeConfig) {
+    const key = safeKey(safe);
+
+    try {
+      await this.poll(safe);
+      this.failures.delete(key);
+      this.schedule(safe, this.config.intervalMs);
+    } catch (error) {
+      const failures = (this.failures.get(key) ?? 0) + 1;
+      this.failures.set(key, failures);
+
+      const delayMs = this.backoffMs(failures);
+
+      Logger.warn("watcher", "Polling failed, backing off", {
+        safe: safe.name,
+        failures,
+        delayMs,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      this.schedule(safe, delayMs);
+    }
+  }
+
+  private async poll(safe: SafeConfig) {
+    const apiKit = createSafeApiKit(safe);
+
+    const transactions = await apiKit.getPendingTransactions(safe.address);
+
+    const now = Date.now();
+    const newTransactions = transactions.results
+      .filter((tx: SafeMultisigTransactionResponse) => {
+        const processed = this.store.get(tx.safeTxHash);
+        return (
+          tx.executionDate === null &&
+          processed?.status !== "done" &&
+          // Failed transactions wait out their backoff
+          !(processed?.retryAt && Date.parse(processed.retryAt) > now)
+        );
+      })
+      .sort((a, b) => a.nonce - b.nonce);
+
+    if (!newTransactions.length) return;
+
+    const safeInfo = await apiKit.getSafeInfo(safe.address);
+    const signer = getSafeSigner(safe);
+
+    for (const tx of newTransactions) {
+      if (!this.running) return;
+
+      const entry = {
+        safe: safe.address,
+        chainId: String(safe.chainId),
+      };
+      const attempts = this.store.get(tx.safeTxHash)?.attempts ?? 0;
+
+      await this.store.set(tx.safeTxHash, {
+        ...entry,
+        status: "in-progress",
+        attempts,
+      });
+
+      let result: Awaited<ReturnType<typeof processTransaction>>;
+      try {
+        result = await processTransaction(tx, {
+          apiKit,
+          signer,
+          safeInfo,
+          safeConfig: safe,
+        });
+      } catch (error) {
+        await this.recordFailure(
+          tx,
+          safe,
+          attempts,
+          error instanceof Error ? error.message : String(error)
+        );
+        continue;
+      }
+
+      const { decision, action } = result;
+
+      // A failed signature is retried like any other failure
+      if (action === "sign-failed") {
+        await this.recordFailure(tx, safe, attempts, "Signing failed");
+        continue;
+      }
+
+      await this.store.set(tx.safeTxHash, {
+        ...entry,
+        status: "done",
+        decision: decision.decision,
+        action,
+      });
+
+      Logger.info("watcher", "Processed pending transaction", {
+        safeTxHash: tx.safeTxHash,
+        decision: decision.decision,
+        action,
+      });
+    }
+  }
+
+  // Most failures are transient (RPC, Transaction Service, disk, signer), so
+  // the transaction stays pending and is retried with backoff until
+  // maxAttempts, then handed to the review queue
+  private async recordFailure(
+    tx: SafeMultisigTransactionResponse,
+    safe: SafeConfig,
+    attempts: number,
+    error: string
+  ) {
+    const entry = {
+      safe: safe.address,
+      chainId: String(safe.chainId),
+    };
+    const failures = attempts + 1;
+
+    if (failures < this.config.maxAttempts) {
+      const delayMs = this.backoffMs(failures);
+
+      await this.store.set(tx.safeTxHash, {
+        ...entry,
+        status: "in-progress",
+        attempts: failures,
+        retryAt: new Date(Date.now() + delayMs).toISOString(),
+        error,
+      });
+
+      Logger.warn("watcher", "Failed to process pending transaction", {
+        safeTxHash: tx.safeTxHash,
+        attempts: failures,
+        delayMs,
+        error,
+      });
+      return;
+    }
+
+    // Only given up on once a human has it in the review queue
+    await this.escalate(tx, safe, failures, error);
+
+    await this.store.set(tx.safeTxHash, {
+      ...entry,
+      status: "done",
+      decision: "needs-human",
+      action: "not-signed",
+      attempts: failures,
+      error,
+    });
+
+    Logger.error("watcher", "Giving up on pending transaction", {
+      safeTxHash: tx.safeTxHash,
+      attempts: failures,
+      error,
+    });
+  }
+
+  // Hands a transaction that keeps failing to the reviewers, who would
+  // otherwise never hear of it
+  private async escalate(
+    tx: SafeMultisigTransactionResponse,
+    safe: SafeConfig,
+    attempts: number,
+    error: string
+  ) {
+    const decision: PolicyDecision = {
+      decision: "needs-human",
+      ruleId: "processing-failed",
+      description: `Processing failed ${attempts} times: ${error}`,
+    };
+
+    await ReviewQueue.getInstance().enqueue({
+      safeTxHash: tx.safeTxHash,
+      chainId: String(safe.chainId),
+      safe: tx.safe,
+      nonce: Number(tx.nonce),
+      decision,
+    });
+
+    NotificationDispatcher.getInstance().notify({
+      event: "transaction.verdict",
+      safeTxHash: tx.safeTxHash,
+      chainId: safe.chainId,
+      safe: tx.safe,
+      nonce: Number(tx.nonce),
+      to: tx.to,
+      value: tx.value,
+      decision,
+      action: "not-signed",
+      signingMode: SIGNING_MODE,
+      // Nothing is known about a transaction that could not be processed
+      severity: "high",
+      checks: {},
+      summary: decision.description!,
+      aiAnalysis: "",
+      createdAt: new Date().toISOString(),
+    });
+  }
+}